@@ -1,4 +1,5 @@
 import type {
+	ModalDismissReason,
 	ModalHandler,
 	RadixDialogContentProps,
 	RadixDialogProps,
@@ -13,6 +14,16 @@ export interface AdapterOptions {
 	disableClose?: boolean;
 }
 
+/**
+ * Whether user-initiated dismissal (escape, outside click) should be honoured.
+ * Only the topmost modal reacts so layered dialogs don't all close at once,
+ * and a busy modal waits for its action.
+ * Content handlers always prevent the library's own dismissal: the manager
+ * drives `open`, and dismiss() may still be vetoed by a close guard.
+ */
+const canDismiss = (modal: ModalHandler, options?: AdapterOptions): boolean =>
+	!options?.disableClose && modal.isTopmost && !modal.isBusy;
+
 // ============================================
 // Radix UI adapters
 // ============================================
@@ -26,7 +37,7 @@ export const radixUiDialog = (
 ): RadixDialogProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -43,17 +54,15 @@ export const radixUiDialogContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -67,7 +76,7 @@ export const radixUiAlertDialog = (
 ): RadixDialogProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -84,17 +93,15 @@ export const radixUiAlertDialogContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -112,12 +119,12 @@ export const shadcnUiDialog = (
 ): ShadcnDialogProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
 	onClose: () => {
-		if (!options?.disableClose) {
+		if (canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -137,17 +144,15 @@ export const shadcnUiDialogContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -161,12 +166,12 @@ export const shadcnUiAlertDialog = (
 ): ShadcnDialogProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
 	onClose: () => {
-		if (!options?.disableClose) {
+		if (canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -186,17 +191,15 @@ export const shadcnUiAlertDialogContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -210,12 +213,12 @@ export const shadcnUiSheet = (
 ): ShadcnDialogProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
 	onClose: () => {
-		if (!options?.disableClose) {
+		if (canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -235,17 +238,15 @@ export const shadcnUiSheetContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -259,7 +260,7 @@ export const shadcnUiPopover = (
 ): { open: boolean; onOpenChange: (open: boolean) => void } => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 			modal.onAnimationEnd();
 		}
@@ -291,11 +292,11 @@ export const shadcnUiDrawer = (
 ): ShadcnUiDrawerRootProps => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
-	dismissible: !options?.disableClose,
+	dismissible: canDismiss(modal, options),
 });
 
 /**
@@ -322,7 +323,7 @@ export const radixUiSheet = (
 ): { open: boolean; onOpenChange: (open: boolean) => void } => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 		}
 	},
@@ -339,17 +340,15 @@ export const radixUiSheetContent = (
 		modal.onAnimationEnd();
 	},
 	onEscapeKeyDown: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("escape");
 		}
 	},
 	onPointerDownOutside: (e?: Event) => {
-		if (options?.disableClose) {
-			e?.preventDefault();
-		} else {
-			modal.dismiss();
+		e?.preventDefault();
+		if (canDismiss(modal, options)) {
+			modal.dismiss("outside");
 		}
 	},
 });
@@ -367,7 +366,7 @@ export const radixUiPopover = (
 ): { open: boolean; onOpenChange: (open: boolean) => void } => ({
 	open: modal.isOpen,
 	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
+		if (!open && canDismiss(modal, options)) {
 			modal.dismiss();
 			modal.onAnimationEnd();
 		}
@@ -378,12 +377,35 @@ export const radixUiPopover = (
 // Base UI adapters (v1+)
 // ============================================
 
+/**
+ * Event details Base UI passes to onOpenChange
+ */
+export interface BaseUiOpenChangeDetails {
+	reason?: string;
+}
+
+/**
+ * Map the reason Base UI reports for closing to a dismiss reason
+ */
+const baseUiDismissReason = (
+	details?: BaseUiOpenChangeDetails,
+): ModalDismissReason => {
+	switch (details?.reason) {
+		case "escape-key":
+			return "escape";
+		case "outside-press":
+			return "outside";
+		default:
+			return "dismiss";
+	}
+};
+
 /**
  * Props returned by Base UI dialog adapters
  */
 export interface BaseUiDialogRootProps {
 	open: boolean;
-	onOpenChange: (open: boolean) => void;
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => void;
 	onOpenChangeComplete: (open: boolean) => void;
 	dismissible?: boolean;
 }
@@ -410,15 +432,15 @@ export const baseUiDialog = (
 	options?: AdapterOptions,
 ): BaseUiDialogRootProps => ({
 	open: modal.isOpen,
-	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
-			modal.dismiss();
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => {
+		if (!open && canDismiss(modal, options)) {
+			modal.dismiss(baseUiDismissReason(details));
 		}
 	},
 	onOpenChangeComplete: () => {
 		modal.onAnimationEnd();
 	},
-	dismissible: !options?.disableClose,
+	dismissible: canDismiss(modal, options),
 });
 
 /**
@@ -449,15 +471,15 @@ export const baseUiAlertDialog = (
 	options?: AdapterOptions,
 ): BaseUiDialogRootProps => ({
 	open: modal.isOpen,
-	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
-			modal.dismiss();
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => {
+		if (!open && canDismiss(modal, options)) {
+			modal.dismiss(baseUiDismissReason(details));
 		}
 	},
 	onOpenChangeComplete: () => {
 		modal.onAnimationEnd();
 	},
-	dismissible: !options?.disableClose,
+	dismissible: canDismiss(modal, options),
 });
 
 /**
@@ -485,7 +507,7 @@ export const baseUiAlertDialogPopup = (
  */
 export interface BaseUiPopoverRootProps {
 	open: boolean;
-	onOpenChange: (open: boolean) => void;
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => void;
 	onOpenChangeComplete: (open: boolean) => void;
 }
 
@@ -511,9 +533,9 @@ export const baseUiPopover = (
 	options?: AdapterOptions,
 ): BaseUiPopoverRootProps => ({
 	open: modal.isOpen,
-	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
-			modal.dismiss();
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => {
+		if (!open && canDismiss(modal, options)) {
+			modal.dismiss(baseUiDismissReason(details));
 		}
 	},
 	onOpenChangeComplete: () => {
@@ -549,15 +571,15 @@ export const baseUiSheet = (
 	options?: AdapterOptions,
 ): BaseUiDialogRootProps => ({
 	open: modal.isOpen,
-	onOpenChange: (open: boolean) => {
-		if (!(open || options?.disableClose)) {
-			modal.dismiss();
+	onOpenChange: (open: boolean, details?: BaseUiOpenChangeDetails) => {
+		if (!open && canDismiss(modal, options)) {
+			modal.dismiss(baseUiDismissReason(details));
 		}
 	},
 	onOpenChangeComplete: () => {
 		modal.onAnimationEnd();
 	},
-	dismissible: !options?.disableClose,
+	dismissible: canDismiss(modal, options),
 });
 
 /**
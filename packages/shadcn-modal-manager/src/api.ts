@@ -1,23 +1,51 @@
+import type { ComponentType } from "react";
 import {
 	actions,
-	getDispatch,
+	defaultCore,
 	getModalId,
-	hideModalCallbacks,
-	MODAL_REGISTRY,
-	modalCallbacks,
-	register,
+	getModalInstanceMode,
+	initialState,
+	isModalPersistable,
+	type ModalCore,
 } from "./core";
 import type {
 	DeferredPromise,
+	ModalChildResultListener,
+	ModalCloseAllResult,
+	ModalCloseGuard,
+	ModalCloseOutcome,
+	ModalCloseReason,
 	ModalConfig,
+	ModalEventListener,
+	ModalEventMap,
+	ModalEventName,
+	ModalInspection,
 	ModalLifecycleState,
+	ModalMiddleware,
+	ModalMiddlewareContext,
 	ModalRef,
+	ModalReplaceConfig,
+	ModalStore,
+	ModalToken,
+	ModalTreeNode,
+	ReplaceModal,
 } from "./types";
 import { type InternalModalConfig, MODAL_CONFIG_KEY } from "./types";
 
 /** Delay before cleaning up closed modal state (allows getState() calls) */
 const CLEANUP_DELAY_MS = 5000;
 
+/** Modal data without the internal config */
+const withoutConfig = (
+	data: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined => {
+	if (!data) {
+		return data;
+	}
+	const { [MODAL_CONFIG_KEY]: _config, ...rest } = data;
+	return rest;
+};
+
 /** Creates a deferred promise with exposed resolve/reject handlers */
 function createDeferredPromise<T = unknown>(): DeferredPromise<T> {
 	let resolve!: (value: T) => void;
@@ -29,56 +57,1544 @@ function createDeferredPromise<T = unknown>(): DeferredPromise<T> {
 	return { resolve, reject, promise };
 }
 
-// Store for opened promises (afterOpened callbacks)
-const openedCallbacks: Record<
-	string,
-	{ resolve: () => void; promise: Promise<void> }
-> = {};
+/**
+ * Rejection of afterClosed() and beforeClosed() for modals opened with
+ * dismissBehavior "reject" that closed without a result
+ */
+export class ModalDismissedError extends Error {
+	/** The modal that closed */
+	readonly modalId: string;
+	/** Why it closed */
+	readonly reason: ModalCloseReason;
 
-// Store for beforeClosed promises
-const beforeClosedCallbacks: Record<
-	string,
-	{ resolve: (result: unknown) => void; promise: Promise<unknown> }
-> = {};
+	constructor(modalId: string, reason: ModalCloseReason) {
+		super(
+			`[ModalManager] Modal ${modalId} closed without a result (${reason}).`,
+		);
+		this.name = "ModalDismissedError";
+		this.modalId = modalId;
+		this.reason = reason;
+	}
+}
 
-// Track modal lifecycle states
-const modalStates: Record<string, ModalLifecycleState> = {};
+/** An open request waiting for its queue channel to free up */
+interface QueuedModal {
+	modalId: string;
+	priority: number;
+	order: number;
+	show: () => void;
+}
+
+/** State of a single queue channel */
+interface ModalQueue {
+	/** Modal currently shown for this channel (until it reaches markClosed) */
+	active: string | undefined;
+	/** Waiting modals, sorted by priority then arrival */
+	pending: QueuedModal[];
+}
 
-// Store promises separately so they persist after close() deletes callbacks
-// This ensures afterClosed() returns the correct promise even after close() is called
-const closedPromises: Record<string, Promise<unknown>> = {};
+/** Higher priority first, then first come first served */
+const compareQueued = (a: QueuedModal, b: QueuedModal): number =>
+	b.priority - a.priority || a.order - b.order;
 
 /**
- * Clean up all internal state for a modal to prevent memory leaks
+ * Signature of openModal: typed tokens infer data and result types
+ */
+export interface OpenModal {
+	<TResult, TData extends Record<string, unknown>>(
+		modal: ModalToken<TData, TResult>,
+		config?: ModalConfig<TData>,
+	): ModalRef<TResult, TData>;
+	<TResult = unknown, TData = Record<string, unknown>>(
+		// Tokens must match the first signature, so their types are enforced
+		// biome-ignore lint/suspicious/noExplicitAny: Modal components have varying props types due to createModal HOC
+		modal: (ComponentType<any> & { useModal?: never }) | string,
+		config?: ModalConfig<TData>,
+	): ModalRef<TResult, TData>;
+}
+
+/** Where focus goes back to when a modal closes */
+interface FocusReturn {
+	target: HTMLElement | undefined;
+	/** Topmost modal when this one opened, the target usually lies inside it */
+	owner: string | undefined;
+	/** Order the modals were shown in */
+	order: number;
+}
+
+/**
+ * Signature of getOpenModals: IDs ordered from bottom to top, or the tree of
+ * parent and child modals
+ */
+export interface GetOpenModals {
+	(): string[];
+	(options: { tree: true }): ModalTreeNode[];
+}
+
+/**
+ * Modal API bound to a single core (one per modal manager instance)
+ */
+export interface ModalApi {
+	/** The core holding this API's registry, callbacks and dispatch */
+	readonly core: ModalCore;
+	/** Open a modal and return a ModalRef for controlling it */
+	openModal: OpenModal;
+	/**
+	 * Close a modal with the "replaced" reason and open another in its place.
+	 * The replaced modal's afterClosed() settles like the next one's.
+	 * A modal replaced with itself stays on screen and takes the new config.
+	 */
+	replaceModal: <TResult = unknown, TData = Record<string, unknown>>(
+		modalId: string,
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal: ComponentType<any> | string,
+		config?: ModalReplaceConfig<TData>,
+	) => ModalRef<TResult, TData>;
+	/**
+	 * Close a modal, consulting its close guards
+	 * @returns Promise resolving to true once the close animation completed,
+	 * or false if a guard kept the modal open
+	 */
+	closeModal: (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal: ComponentType<any> | string,
+	) => Promise<boolean>;
+	/**
+	 * Ask a modal to close with a result, consulting its close guards first.
+	 * Answers synchronously unless a guard is async.
+	 * @returns Whether the modal was allowed to close
+	 */
+	requestClose: (
+		modalId: string,
+		result?: unknown,
+		reason?: ModalCloseReason,
+	) => boolean | Promise<boolean>;
+	/**
+	 * Register a guard that can veto closing a modal
+	 * @returns Function that unregisters the guard
+	 */
+	addCloseGuard: (modalId: string, guard: ModalCloseGuard) => () => void;
+	/**
+	 * Listen to the results child modals of a modal close with
+	 * @returns Function that removes the listener
+	 */
+	addChildResultListener: (
+		modalId: string,
+		listener: ModalChildResultListener,
+	) => () => void;
+	/** Remove a modal from the DOM completely, after running middleware */
+	removeModal: (modal: string | ComponentType<Record<string, unknown>>) => void;
+	/**
+	 * Remove a modal without running middleware, settling its pending
+	 * promises with the given reason (e.g. once its close animation ended)
+	 */
+	discardModal: (modalId: string, reason: ModalCloseReason) => void;
+	/**
+	 * Add a middleware run before modals open, close or are removed
+	 * @returns Function that removes the middleware
+	 */
+	use: (middleware: ModalMiddleware) => () => void;
+	/**
+	 * Listen to a lifecycle event of every modal
+	 * @returns Function that removes the listener
+	 */
+	on: <TEvent extends ModalEventName>(
+		event: TEvent,
+		listener: ModalEventListener<TEvent>,
+	) => () => void;
+	/**
+	 * Close a modal that failed to render (reason "error"), skipping close
+	 * guards. The modal stays in the store until removed.
+	 */
+	failModal: (modalId: string, error: unknown) => void;
+	/**
+	 * Run an action for a modal, keeping it busy while the action is pending.
+	 * Closes the modal with the action's value, or records what it failed with.
+	 */
+	runAction: (modalId: string, action: () => unknown) => Promise<void>;
+	/** Set flags on a modal (internal use) */
+	setFlags: (modalId: string, flags: Record<string, unknown>) => void;
+	/** Mark a modal as fully closed (called after animation completes) */
+	markClosed: (modalId: string) => void;
+	/** Notify that a modal has been opened (called after mount/animation) */
+	notifyOpened: (modalId: string) => void;
+	/**
+	 * Get all currently open modal IDs, ordered from bottom to top, or with
+	 * `{ tree: true }` the open modals nested under their parents
+	 */
+	getOpenModals: GetOpenModals;
+	/** Get the ID of the topmost open modal */
+	getTopModal: () => string | undefined;
+	/**
+	 * Close all open modals (or only the instances of one modal),
+	 * reporting which ones refused
+	 */
+	closeAllModals: (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal?: ComponentType<any> | string,
+	) => Promise<ModalCloseAllResult>;
+	/** Get the IDs of a modal's live instances, ordered from bottom to top */
+	getInstances: (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal: ComponentType<any> | string,
+	) => string[];
+	/** Check if any modals are currently open */
+	hasOpenModals: () => boolean;
+	/** Whether a modal should be saved when the provider persists modals */
+	isPersistable: (modalId: string) => boolean;
+	/** Lifecycle state and unsettled promises of a modal, for debugging */
+	inspectModal: (modalId: string) => ModalInspection;
+	/**
+	 * Open the modals of a store as already visible, e.g. ones rendered on
+	 * the server. Modals already in the store are left alone.
+	 */
+	hydrateModals: (modals: ModalStore) => void;
+	/** Clean up all internal state for a modal to prevent memory leaks */
+	cleanupModal: (modalId: string) => void;
+	/** Clean up all modal state (useful for testing) */
+	cleanupAllModals: () => void;
+}
+
+/**
+ * Create a modal API bound to the given core
+ * Lifecycle state and promises are scoped to the returned API
  */
-export const cleanupModal = (modalId: string): void => {
-	delete modalCallbacks[modalId];
-	delete hideModalCallbacks[modalId];
-	delete openedCallbacks[modalId];
-	delete beforeClosedCallbacks[modalId];
-	delete modalStates[modalId];
-	delete closedPromises[modalId];
+export const createModalApi = (core: ModalCore): ModalApi => {
+	const { modalCallbacks, hideModalCallbacks } = core;
+
+	// Store for opened promises (afterOpened callbacks)
+	const openedCallbacks: Record<
+		string,
+		{ resolve: () => void; promise: Promise<void> }
+	> = {};
+
+	// Store for beforeClosed promises
+	const beforeClosedCallbacks: Record<string, DeferredPromise<unknown>> = {};
+
+	// Close reason promises (afterClosedWithReason) and how dismissals settle
+	const closeOutcomes: Record<string, DeferredPromise<ModalCloseOutcome>> = {};
+	const dismissBehaviors: Record<string, "resolve" | "reject"> = {};
+
+	// Track modal lifecycle states
+	const modalStates: Record<string, ModalLifecycleState> = {};
+
+	// Store promises separately so they persist after close() deletes callbacks
+	// This ensures afterClosed() returns the correct promise even after close() is called
+	const closedPromises: Record<string, Promise<unknown>> = {};
+
+	// Stack depth recorded for each modal when it was opened
+	const modalDepths: Record<string, number> = {};
+
+	// Registry ID behind each instance of a multi-instance modal
+	const modalInstanceOf: Record<string, string> = {};
+	let instanceSeq = 0;
+
+	// Modals saved to storage when the provider persists modals
+	const persistableModals: Record<string, boolean> = {};
+
+	/** Whether a modal ID is the given modal or one of its instances */
+	const isInstanceOf = (modalId: string, registryId: string): boolean =>
+		(modalInstanceOf[modalId] ?? modalId) === registryId;
+
+	// Queue channels and the channel each queued modal belongs to
+	const queues: Record<string, ModalQueue> = {};
+	const modalQueueChannels: Record<string, string> = {};
+	let queueOrder = 0;
+
+	/** Drop a modal from its channel's pending list */
+	const dequeue = (modalId: string): void => {
+		const channel = modalQueueChannels[modalId];
+		const queue = channel === undefined ? undefined : queues[channel];
+		if (queue) {
+			queue.pending = queue.pending.filter(
+				(entry) => entry.modalId !== modalId,
+			);
+		}
+	};
+
+	/** Show the next waiting modal once the channel's active modal is gone */
+	const releaseQueue = (modalId: string): void => {
+		const channel = modalQueueChannels[modalId];
+		const queue = channel === undefined ? undefined : queues[channel];
+		if (!queue || queue.active !== modalId) {
+			return;
+		}
+		const next = queue.pending.shift();
+		queue.active = next?.modalId;
+		if (next) {
+			next.show();
+		} else {
+			delete queues[channel as string];
+		}
+	};
+
+	// Guards registered via ModalConfig.canClose and useModalCloseGuard()
+	const configCloseGuards: Record<string, ModalCloseGuard> = {};
+	const closeGuards: Record<string, Set<ModalCloseGuard>> = {};
+
+	// In-flight async guard checks, so repeated requests don't ask twice
+	const pendingCloseChecks: Record<string, Promise<boolean>> = {};
+
+	// Middleware added via use(), run in order around open/close/remove
+	const middlewares: ModalMiddleware[] = [];
+
+	// Action in flight per modal, tracked here so it works with any dispatch
+	const busyActions: Record<string, object> = {};
+	// Modals showing the error of their last action
+	const failedActions: Record<string, boolean> = {};
+
+	// Where focus goes back to once each shown modal has closed
+	const focusReturns: Record<string, FocusReturn> = {};
+	let focusSeq = 0;
+
+	// Parent of each modal opened from inside another (ModalConfig.parent)
+	const modalParents: Record<string, string> = {};
+
+	// Listeners for the results of each modal's children
+	const childResultListeners: Record<
+		string,
+		Set<ModalChildResultListener>
+	> = {};
+
+	// Results of the modals replacing others, which replaced modals settle with
+	const replacements: Record<string, DeferredPromise<unknown>> = {};
+
+	// Lifecycle event listeners added via on()
+	const eventListeners: {
+		[TEvent in ModalEventName]?: Set<ModalEventListener<TEvent>>;
+	} = {};
+
+	// How each closing modal settled, reported again once it has closed
+	const settledOutcomes: Record<
+		string,
+		{ result: unknown; reason: ModalCloseReason }
+	> = {};
+
+	// Abort listeners (ModalConfig.signal) and timers (ModalConfig.timeoutMs)
+	const abortListeners: Record<string, () => void> = {};
+	const closeTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+	/** Stop watching a modal's signal and timeout */
+	const releaseLifetime = (modalId: string): void => {
+		abortListeners[modalId]?.();
+		delete abortListeners[modalId];
+		clearTimeout(closeTimers[modalId]);
+		delete closeTimers[modalId];
+	};
+
+	const cleanupModal = (modalId: string): void => {
+		delete modalCallbacks[modalId];
+		delete hideModalCallbacks[modalId];
+		delete openedCallbacks[modalId];
+		delete beforeClosedCallbacks[modalId];
+		delete closeOutcomes[modalId];
+		delete dismissBehaviors[modalId];
+		delete modalStates[modalId];
+		delete closedPromises[modalId];
+		delete modalDepths[modalId];
+		delete modalInstanceOf[modalId];
+		delete persistableModals[modalId];
+		dequeue(modalId);
+		delete modalQueueChannels[modalId];
+		delete configCloseGuards[modalId];
+		delete pendingCloseChecks[modalId];
+		delete settledOutcomes[modalId];
+		delete replacements[modalId];
+		delete modalParents[modalId];
+		delete childResultListeners[modalId];
+		delete focusReturns[modalId];
+		delete busyActions[modalId];
+		delete failedActions[modalId];
+		for (const [childId, parentId] of Object.entries(modalParents)) {
+			if (parentId === modalId) {
+				delete modalParents[childId];
+			}
+		}
+		releaseLifetime(modalId);
+	};
+
+	const cleanupAllModals = (): void => {
+		const allIds = new Set([
+			...Object.keys(modalCallbacks),
+			...Object.keys(hideModalCallbacks),
+			...Object.keys(openedCallbacks),
+			...Object.keys(beforeClosedCallbacks),
+			...Object.keys(closeOutcomes),
+			...Object.keys(modalStates),
+			...Object.keys(closedPromises),
+			...Object.keys(modalDepths),
+		]);
+		for (const id of allIds) {
+			cleanupModal(id);
+		}
+		for (const channel of Object.keys(queues)) {
+			delete queues[channel];
+		}
+		core.store.setState(initialState);
+	};
+
+	/** Get the promise resolved once the closing animation completes */
+	const getHidePromise = (modalId: string): Promise<unknown> => {
+		// Create close promise if it doesn't exist
+		if (!hideModalCallbacks[modalId]) {
+			hideModalCallbacks[modalId] = createDeferredPromise();
+		}
+		return hideModalCallbacks[modalId].promise;
+	};
+
+	/** Settle the close promises of a modal, rejecting dismissals if asked to */
+	const settleClose = (
+		modalId: string,
+		result: unknown,
+		reason: ModalCloseReason,
+		error?: unknown,
+	): void => {
+		// Only the first settlement of a shown modal starts its close
+		if (hasBeenShown(modalId) && modalCallbacks[modalId]) {
+			settledOutcomes[modalId] = { result, reason };
+			emit("beforeClose", { modalId, result, reason });
+
+			const parentId = modalParents[modalId];
+			if (reason === "result" && parentId !== undefined) {
+				for (const listener of [...(childResultListeners[parentId] ?? [])]) {
+					try {
+						listener({ modalId, result });
+					} catch (error) {
+						console.error("[ModalManager] child result listener failed", error);
+					}
+				}
+			}
+		}
+
+		const replacement =
+			reason === "replaced" ? replacements[modalId] : undefined;
+		delete replacements[modalId];
+
+		if (replacement) {
+			// The caller waits on for the modal that took this one's place
+			beforeClosedCallbacks[modalId]?.resolve(result);
+			const main = modalCallbacks[modalId];
+			if (main) {
+				replacement.promise.then(main.resolve, main.reject);
+			}
+		} else if (reason !== "result" && dismissBehaviors[modalId] === "reject") {
+			// Render failures reject with the thrown error itself
+			const rejection =
+				reason === "error" ? error : new ModalDismissedError(modalId, reason);
+			beforeClosedCallbacks[modalId]?.reject(rejection);
+			modalCallbacks[modalId]?.reject(rejection);
+		} else {
+			beforeClosedCallbacks[modalId]?.resolve(result);
+			modalCallbacks[modalId]?.resolve(result);
+		}
+		closeOutcomes[modalId]?.resolve(
+			reason === "error" ? { reason, result, error } : { reason, result },
+		);
+		releaseLifetime(modalId);
+
+		delete beforeClosedCallbacks[modalId];
+		delete modalCallbacks[modalId];
+		delete closeOutcomes[modalId];
+	};
+
+	/** Run the close guards of a modal, synchronously if every guard is */
+	const runCloseGuards = (
+		modalId: string,
+		result: unknown,
+		reason: ModalCloseReason,
+	): boolean | Promise<boolean> => {
+		const guards = [...(closeGuards[modalId] ?? [])];
+		const configGuard = configCloseGuards[modalId];
+		if (configGuard) {
+			guards.unshift(configGuard);
+		}
+		if (guards.length === 0) {
+			return true;
+		}
+
+		// A failing guard counts as a refusal
+		const onGuardError = (error: unknown): false => {
+			console.error(
+				`[ModalManager] Close guard failed for modal: ${modalId}`,
+				error,
+			);
+			return false;
+		};
+		const answers = guards.map((guard) => {
+			try {
+				return guard({ modalId, result, reason });
+			} catch (error) {
+				return onGuardError(error);
+			}
+		});
+
+		if (answers.every((answer) => typeof answer === "boolean")) {
+			return answers.every(Boolean);
+		}
+		return Promise.all(answers).then(
+			(resolved) => resolved.every(Boolean),
+			onGuardError,
+		);
+	};
+
+	/** Run middleware in order, synchronously until one returns a promise */
+	const runMiddleware = (
+		context: ModalMiddlewareContext,
+		from = 0,
+	): boolean | Promise<boolean> => {
+		// A failing middleware cancels the action
+		const onMiddlewareError = (error: unknown): false => {
+			console.error(
+				`[ModalManager] Middleware failed to ${context.type} modal: ${context.modalId}`,
+				error,
+			);
+			return false;
+		};
+
+		for (let index = from; index < middlewares.length; index++) {
+			let outcome: ReturnType<ModalMiddleware>;
+			try {
+				outcome = middlewares[index]?.(context);
+			} catch (error) {
+				return onMiddlewareError(error);
+			}
+			if (outcome === false) {
+				return false;
+			}
+			if (outcome instanceof Promise) {
+				return outcome.then(
+					(resolved) => resolved !== false && runMiddleware(context, index + 1),
+					onMiddlewareError,
+				);
+			}
+		}
+		return true;
+	};
+
+	/** Continue with the next check once the previous one allowed it */
+	const andThen = (
+		allowed: boolean | Promise<boolean>,
+		next: () => boolean | Promise<boolean>,
+	): boolean | Promise<boolean> =>
+		typeof allowed === "boolean"
+			? allowed && next()
+			: allowed.then((ok) => ok && next());
+
+	/** A modal's current data, without the internal config */
+	const getModalData = (modalId: string): Record<string, unknown> | undefined =>
+		withoutConfig(core.store.getSnapshot()[modalId]?.data);
+
+	const on = <TEvent extends ModalEventName>(
+		event: TEvent,
+		listener: ModalEventListener<TEvent>,
+	): (() => void) => {
+		const listeners: Set<ModalEventListener<TEvent>> =
+			eventListeners[event] ?? new Set();
+		(eventListeners as Record<TEvent, typeof listeners>)[event] = listeners;
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	};
+
+	/** Notify listeners, a failing listener doesn't stop the others */
+	const emit = <TEvent extends ModalEventName>(
+		event: TEvent,
+		payload: ModalEventMap[TEvent],
+	): void => {
+		const listeners = eventListeners[event] as
+			| Set<ModalEventListener<TEvent>>
+			| undefined;
+		for (const listener of [...(listeners ?? [])]) {
+			try {
+				listener(payload);
+			} catch (error) {
+				console.error(`[ModalManager] "${event}" listener failed`, error);
+			}
+		}
+	};
+
+	/** Whether a modal was shown, so its lifecycle events are reported */
+	const hasBeenShown = (modalId: string): boolean => modalId in modalDepths;
+
+	const use = (middleware: ModalMiddleware): (() => void) => {
+		middlewares.push(middleware);
+		return () => {
+			const index = middlewares.indexOf(middleware);
+			if (index !== -1) {
+				middlewares.splice(index, 1);
+			}
+		};
+	};
+
+	/** Remember where focus goes back to when a modal that is being shown closes */
+	const captureFocus = (
+		modalId: string,
+		returnFocus: HTMLElement | false | undefined,
+	): void => {
+		if (returnFocus === false || typeof document === "undefined") {
+			delete focusReturns[modalId];
+			return;
+		}
+		const { activeElement } = document;
+		focusReturns[modalId] = {
+			target:
+				returnFocus ??
+				(activeElement instanceof HTMLElement ? activeElement : undefined),
+			owner: getTopModal(),
+			order: ++focusSeq,
+		};
+	};
+
+	/**
+	 * Hand focus back once a modal has closed. Modals opened on top of it
+	 * return to its target instead of into it, and while one of them is still
+	 * open focus stays where it is.
+	 */
+	const restoreFocus = (modalId: string): void => {
+		const focusReturn = focusReturns[modalId];
+		if (!focusReturn) {
+			return;
+		}
+		delete focusReturns[modalId];
+
+		let covered = false;
+		for (const [id, other] of Object.entries(focusReturns)) {
+			if (other.owner === modalId) {
+				focusReturns[id] = { ...focusReturn, order: other.order };
+			}
+			if (other.order > focusReturn.order && modalStates[id] === "open") {
+				covered = true;
+			}
+		}
+
+		if (!covered && focusReturn.target?.isConnected) {
+			focusReturn.target.focus();
+		}
+	};
+
+	/** Children of a modal in the given states, top first */
+	const getChildren = (
+		modalId: string,
+		states: ModalLifecycleState[] = ["open", "queued"],
+	): string[] =>
+		Object.keys(modalParents)
+			.filter(
+				(id) =>
+					modalParents[id] === modalId &&
+					states.includes(modalStates[id] ?? "closed"),
+			)
+			.sort((a, b) => (modalDepths[b] ?? 0) - (modalDepths[a] ?? 0));
+
+	/** Children close as dismissed when their parent closes with a result */
+	const getChildReason = (reason: ModalCloseReason): ModalCloseReason =>
+		reason === "result" ? "dismiss" : reason;
+
+	/** Ask the children of a modal to close, synchronously if every one answers so */
+	const requestCloseChildren = (
+		modalId: string,
+		reason: ModalCloseReason,
+	): boolean | Promise<boolean> => {
+		const answers = getChildren(modalId).map((childId) => {
+			if (modalStates[childId] === "queued") {
+				discardModal(childId, getChildReason(reason));
+				return true;
+			}
+			return requestClose(childId, undefined, getChildReason(reason));
+		});
+		if (answers.every((answer) => typeof answer === "boolean")) {
+			return answers.every(Boolean);
+		}
+		return Promise.all(answers).then((all) => all.every(Boolean));
+	};
+
+	/** Close the children of a modal without consulting their guards */
+	const forceCloseChildren = (
+		modalId: string,
+		reason: ModalCloseReason,
+	): void => {
+		for (const childId of getChildren(modalId)) {
+			if (modalStates[childId] === "queued") {
+				discardModal(childId, getChildReason(reason));
+				continue;
+			}
+			openedCallbacks[childId]?.resolve();
+			delete openedCallbacks[childId];
+			delete pendingCloseChecks[childId];
+			finishClose(childId, undefined, getChildReason(reason));
+		}
+	};
+
+	/** Close a modal with a result, without consulting guards */
+	const finishClose = (
+		modalId: string,
+		result: unknown,
+		reason: ModalCloseReason,
+	): void => {
+		// Nested modals go first, they can't outlive their parent
+		forceCloseChildren(modalId, reason);
+
+		// An action still running can no longer close this modal
+		if (busyActions[modalId] || failedActions[modalId]) {
+			delete busyActions[modalId];
+			delete failedActions[modalId];
+			setFlags(modalId, { isBusy: false, actionError: undefined });
+		}
+
+		// Trigger beforeClosed and settle the main promise
+		modalStates[modalId] = "closing";
+		settleClose(modalId, result, reason);
+
+		getHidePromise(modalId);
+
+		// Dispatch close action
+		core.getDispatch()(actions.close(modalId));
+	};
+
+	const requestClose = (
+		modalId: string,
+		result?: unknown,
+		reason: ModalCloseReason = "result",
+	): boolean | Promise<boolean> => {
+		const pending = pendingCloseChecks[modalId];
+		if (pending) {
+			return pending;
+		}
+
+		// Modals already on their way out don't need to ask again. Children are
+		// asked first, one that stays open keeps its parent open too.
+		const allowed =
+			modalStates[modalId] === "closing"
+				? true
+				: andThen(requestCloseChildren(modalId, reason), () =>
+						andThen(
+							runMiddleware({
+								type: reason === "result" ? "close" : "dismiss",
+								modalId,
+								data: getModalData(modalId),
+								result,
+								reason,
+							}),
+							() => runCloseGuards(modalId, result, reason),
+						),
+					);
+
+		if (typeof allowed === "boolean") {
+			if (allowed) {
+				finishClose(modalId, result, reason);
+			}
+			return allowed;
+		}
+
+		const check = allowed.then((ok) => {
+			delete pendingCloseChecks[modalId];
+			if (ok) {
+				finishClose(modalId, result, reason);
+			}
+			return ok;
+		});
+		pendingCloseChecks[modalId] = check;
+		return check;
+	};
+
+	const addCloseGuard = (
+		modalId: string,
+		guard: ModalCloseGuard,
+	): (() => void) => {
+		closeGuards[modalId] ??= new Set();
+		closeGuards[modalId].add(guard);
+		return () => {
+			closeGuards[modalId]?.delete(guard);
+			if (closeGuards[modalId]?.size === 0) {
+				delete closeGuards[modalId];
+			}
+		};
+	};
+
+	const closeModal = async (
+		// biome-ignore lint/suspicious/noExplicitAny: implementation signature needs flexibility
+		modal: string | ComponentType<any>,
+	): Promise<boolean> => {
+		const modalId = getModalId(modal);
+
+		// A queued modal was never shown, so drop it without animating
+		if (modalStates[modalId] === "queued") {
+			discardModal(modalId, "dismiss");
+			return true;
+		}
+
+		// Grab the close promise before animations can resolve it
+		const hidden = getHidePromise(modalId);
+		const closed = await requestClose(modalId, undefined, "dismiss");
+		if (closed) {
+			await hidden;
+		}
+		return closed;
+	};
+
+	/** Remove a modal, settling its pending promises with the given reason */
+	const discardModal = (modalId: string, reason: ModalCloseReason): void => {
+		const shown = hasBeenShown(modalId);
+
+		// Nested modals are removed first, they can't outlive their parent
+		for (const childId of getChildren(modalId, ["open", "queued", "closing"])) {
+			discardModal(childId, getChildReason(reason));
+		}
+
+		// Dispatch remove action
+		core.getDispatch()(actions.remove(modalId));
+		restoreFocus(modalId);
+
+		// Settle any pending promises before cleanup
+		settleClose(modalId, undefined, reason);
+		hideModalCallbacks[modalId]?.resolve(undefined);
+		openedCallbacks[modalId]?.resolve();
+
+		// Let the next queued modal in the same channel open
+		releaseQueue(modalId);
+
+		// Clean up all callbacks to prevent memory leaks
+		cleanupModal(modalId);
+
+		if (shown) {
+			emit("removed", { modalId, reason });
+		}
+	};
+
+	const removeModal = (
+		modal: string | ComponentType<Record<string, unknown>>,
+	): void => {
+		const modalId = getModalId(modal);
+		const allowed = runMiddleware({
+			type: "remove",
+			modalId,
+			data: getModalData(modalId),
+		});
+
+		if (allowed === true) {
+			discardModal(modalId, "remove");
+		} else if (allowed !== false) {
+			allowed.then((ok) => {
+				if (ok) {
+					discardModal(modalId, "remove");
+				}
+			});
+		}
+	};
+
+	const failModal = (modalId: string, error: unknown): void => {
+		if (modalStates[modalId] === "closed") {
+			return;
+		}
+		forceCloseChildren(modalId, "error");
+		modalStates[modalId] = "closing";
+		delete pendingCloseChecks[modalId];
+		openedCallbacks[modalId]?.resolve();
+		delete openedCallbacks[modalId];
+		settleClose(modalId, undefined, "error", error);
+		core.getDispatch()(actions.close(modalId));
+	};
+
+	const setFlags = (modalId: string, flags: Record<string, unknown>): void => {
+		core.getDispatch()(actions.setFlags(modalId, flags));
+	};
+
+	const runAction = (modalId: string, action: () => unknown): Promise<void> => {
+		if (busyActions[modalId]) {
+			return Promise.resolve();
+		}
+		if (failedActions[modalId]) {
+			delete failedActions[modalId];
+			setFlags(modalId, { actionError: undefined });
+		}
+
+		let pending: unknown;
+		try {
+			pending = action();
+		} catch (error) {
+			failedActions[modalId] = true;
+			setFlags(modalId, { actionError: error });
+			return Promise.resolve();
+		}
+
+		// Synchronous actions close right away, without a busy state
+		if (!(pending instanceof Promise)) {
+			requestClose(modalId, pending, "result");
+			return Promise.resolve();
+		}
+
+		const run = {};
+		busyActions[modalId] = run;
+		setFlags(modalId, { isBusy: true });
+
+		// Closing or removing the modal drops the run, its outcome is ignored then
+		const finish = (): boolean => {
+			if (busyActions[modalId] !== run) {
+				return false;
+			}
+			delete busyActions[modalId];
+			return modalStates[modalId] === "open";
+		};
+		return pending.then(
+			(value: unknown) => {
+				if (finish()) {
+					setFlags(modalId, { isBusy: false });
+					requestClose(modalId, value, "result");
+				}
+			},
+			(error: unknown) => {
+				if (finish()) {
+					failedActions[modalId] = true;
+					setFlags(modalId, { isBusy: false, actionError: error });
+				}
+			},
+		);
+	};
+
+	/**
+	 * Open a modal once the gate allows it, optionally at a given stack depth
+	 * (replacements wait for the modal they replace and take its place)
+	 */
+	/** Component behind a modal and whether each open gets its own instance */
+	const resolveInstance = (
+		// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
+		modal: ComponentType<any> | string,
+		config: ModalConfig,
+	) => {
+		const component =
+			typeof modal === "string" ? core.registry[modal]?.comp : modal;
+		const instance =
+			config.instance ??
+			(component ? getModalInstanceMode(component) : "single");
+		return { component, instance };
+	};
+
+	const openModalAfter = <TResult = unknown, TData = Record<string, unknown>>(
+		// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
+		modal: ComponentType<any> | string,
+		config: ModalConfig<TData>,
+		gate: boolean | Promise<boolean>,
+		depth?: number,
+	): ModalRef<TResult, TData> => {
+		// Multi-instance modals get a fresh ID but share the registry entry
+		const { component, instance } = resolveInstance(modal, config);
+		const registryId = instance === "multiple" ? getModalId(modal) : undefined;
+		const modalId =
+			config.modalId ??
+			(registryId ? `${registryId}#${++instanceSeq}` : getModalId(modal));
+
+		// Auto-register if it's a component and not already registered
+		const registerId = registryId ?? modalId;
+		if (typeof modal !== "string" && !core.registry[registerId]) {
+			core.register(registerId, modal);
+		}
+		if (registryId) {
+			modalInstanceOf[modalId] = registryId;
+		}
+		persistableModals[modalId] =
+			config.persistable ?? (component ? isModalPersistable(component) : false);
+
+		// Remember which modal this one belongs to, if that one is still there
+		const { parent } = config;
+		if (
+			parent !== undefined &&
+			parent !== modalId &&
+			(modalStates[parent] === "open" || modalStates[parent] === "queued")
+		) {
+			modalParents[modalId] = parent;
+		} else {
+			delete modalParents[modalId];
+		}
+
+		// Start loading lazy modals now, render errors surface via Suspense
+		core.registry[registerId]?.preload?.().catch(() => undefined);
+
+		// Track disableClose state for the ref
+		let disableClose = config.disableClose ?? false;
+
+		// Forget the signal and timeout of a previous open
+		releaseLifetime(modalId);
+
+		// Register the per-open close guard
+		if (config.canClose) {
+			configCloseGuards[modalId] = config.canClose;
+		} else {
+			delete configCloseGuards[modalId];
+		}
+
+		// Prepare data with internal config
+		const modalConfig: InternalModalConfig = {
+			disableClose,
+			keepMounted: config.keepMounted,
+		};
+		const data: Record<string, unknown> = {
+			...(config.data as Record<string, unknown>),
+			[MODAL_CONFIG_KEY]: modalConfig,
+		};
+
+		// Create show promise
+		const mainCallbacks = createDeferredPromise();
+		modalCallbacks[modalId] = mainCallbacks;
+
+		// Store promise reference that persists after close() for afterClosed()
+		closedPromises[modalId] = mainCallbacks.promise;
+
+		// Create opened promise
+		const openedDeferred = createDeferredPromise<void>();
+		openedCallbacks[modalId] = {
+			resolve: openedDeferred.resolve,
+			promise: openedDeferred.promise,
+		};
+
+		// Create beforeClosed promise
+		const beforeClosedDeferred = createDeferredPromise();
+		beforeClosedCallbacks[modalId] = beforeClosedDeferred;
+
+		// Create close reason promise
+		const outcomeDeferred = createDeferredPromise<ModalCloseOutcome>();
+		closeOutcomes[modalId] = outcomeDeferred;
+
+		dismissBehaviors[modalId] = config.dismissBehavior ?? "resolve";
+		if (config.dismissBehavior === "reject") {
+			// afterClosed() and beforeClosed() are optional to observe, so their
+			// rejections are handled here; callers reading them still see them
+			mainCallbacks.promise.catch(() => undefined);
+			beforeClosedDeferred.promise.catch(() => undefined);
+		}
+
+		const show = (): void => {
+			if (modalStates[modalId] !== "open") {
+				captureFocus(modalId, config.returnFocus);
+			}
+
+			// Place the modal on top of the stack unless it is already open
+			if (
+				modalStates[modalId] !== "open" ||
+				modalDepths[modalId] === undefined
+			) {
+				modalDepths[modalId] = depth ?? getNextDepth(modalId);
+			}
+
+			// Set initial state
+			modalStates[modalId] = "open";
+
+			// Dispatch open action
+			core.getDispatch()(
+				actions.open(modalId, data, modalDepths[modalId], registryId),
+			);
+
+			// Set keepMounted flag if specified
+			if (config.keepMounted) {
+				core.getDispatch()(actions.setFlags(modalId, { keepMounted: true }));
+			}
+
+			emit("open", { modalId, data: withoutConfig(data) });
+
+			// Start the timeout once the modal is actually shown
+			if (config.timeoutMs !== undefined) {
+				clearTimeout(closeTimers[modalId]);
+				closeTimers[modalId] = setTimeout(
+					() => forceClose("timeout"),
+					config.timeoutMs,
+				);
+			}
+		};
+
+		// Close without consulting guards: the workflow the modal belongs to is gone
+		const forceClose = (reason: ModalCloseReason): void => {
+			if (modalStates[modalId] === "queued") {
+				discardModal(modalId, reason);
+				return;
+			}
+			if (modalStates[modalId] !== "open") {
+				return;
+			}
+			// The modal may close before it finished opening
+			openedCallbacks[modalId]?.resolve();
+			delete openedCallbacks[modalId];
+			delete pendingCloseChecks[modalId];
+			finishClose(modalId, undefined, reason);
+		};
+
+		// Show now, or wait for the channel's current modal to close when queueing
+		const { queue: channel, signal } = config;
+		const start = (): void => {
+			// A modal already on screen is updated in place, never queued behind itself
+			const state = modalStates[modalId];
+			if (
+				channel === undefined ||
+				state === "open" ||
+				state === "closing" ||
+				queues[channel]?.active === modalId
+			) {
+				show();
+				return;
+			}
+			dequeue(modalId);
+			modalQueueChannels[modalId] = channel;
+			queues[channel] ??= { active: undefined, pending: [] };
+			const queue = queues[channel];
+			if (queue.active === undefined) {
+				queue.active = modalId;
+				show();
+			} else {
+				modalStates[modalId] = "queued";
+				queue.pending.push({
+					modalId,
+					priority: config.priority ?? 0,
+					order: queueOrder++,
+					show,
+				});
+				queue.pending.sort(compareQueued);
+			}
+		};
+
+		// Let middleware change the data or cancel before anything is shown
+		const wasShown = modalStates[modalId] === "open";
+		const middlewareContext: ModalMiddlewareContext = {
+			type: "open",
+			modalId,
+			data: { ...(config.data as Record<string, unknown>) },
+			config: config as ModalConfig,
+		};
+		const proceed = (allowed: boolean): void => {
+			if (allowed) {
+				// Rebuild in place, the ref keeps updating this object
+				const internalConfig = data[MODAL_CONFIG_KEY];
+				for (const key of Object.keys(data)) {
+					delete data[key];
+				}
+				Object.assign(data, middlewareContext.data, {
+					[MODAL_CONFIG_KEY]: internalConfig,
+				});
+				start();
+			} else if (wasShown) {
+				// Only this request is cancelled, the modal stays as it was
+				openedCallbacks[modalId]?.resolve();
+				delete openedCallbacks[modalId];
+				settleClose(modalId, undefined, "cancelled");
+			} else {
+				discardModal(modalId, "cancelled");
+			}
+		};
+
+		if (signal?.aborted) {
+			// An aborted signal never shows the modal
+			discardModal(modalId, "abort");
+		} else {
+			const allowed = andThen(gate, () => runMiddleware(middlewareContext));
+			if (typeof allowed === "boolean") {
+				proceed(allowed);
+			} else {
+				// Wait like a queued modal, so close() and aborts still drop it
+				if (!wasShown) {
+					modalStates[modalId] = "queued";
+				}
+				allowed.then((ok) => {
+					// Skip opens that were closed or superseded in the meantime
+					if (modalCallbacks[modalId] === mainCallbacks) {
+						proceed(ok);
+					}
+				});
+			}
+		}
+
+		// Follow the lifetime of the workflow that opened the modal
+		if (signal && !signal.aborted) {
+			const onAbort = () => forceClose("abort");
+			signal.addEventListener("abort", onAbort, { once: true });
+			abortListeners[modalId] = () =>
+				signal.removeEventListener("abort", onAbort);
+		}
+
+		// Return the ModalRef
+		const modalRef: ModalRef<TResult, TData> = {
+			modalId,
+			data: config.data,
+
+			get disableClose() {
+				return disableClose;
+			},
+			set disableClose(value: boolean) {
+				disableClose = value;
+				// Update the modal config
+				const currentConfig =
+					(data[MODAL_CONFIG_KEY] as InternalModalConfig) ?? {};
+				const updatedData = {
+					...data,
+					[MODAL_CONFIG_KEY]: {
+						...currentConfig,
+						disableClose: value,
+					},
+				};
+				core.getDispatch()(actions.setFlags(modalId, { data: updatedData }));
+			},
+
+			close: (result?: TResult) => {
+				if (modalStates[modalId] === "closed") {
+					return;
+				}
+
+				// A queued modal was never shown, so drop it with the result
+				if (modalStates[modalId] === "queued") {
+					settleClose(modalId, result, "result");
+					discardModal(modalId, "remove");
+					return;
+				}
+
+				requestClose(modalId, result, "result");
+			},
+
+			afterOpened: () => {
+				return openedDeferred.promise;
+			},
+
+			afterClosed: () => {
+				return mainCallbacks.promise as Promise<TResult | undefined>;
+			},
+
+			afterClosedWithReason: () => {
+				return outcomeDeferred.promise as Promise<ModalCloseOutcome<TResult>>;
+			},
+
+			beforeClosed: () => {
+				return beforeClosedDeferred.promise as Promise<TResult | undefined>;
+			},
+
+			updateData: (newData: Partial<TData>) => {
+				Object.assign(data, newData as Record<string, unknown>);
+				// Queued modals pick up the new data when they are shown
+				if (modalStates[modalId] !== "queued") {
+					core.getDispatch()(actions.open(modalId, data));
+					emit("dataChanged", { modalId, data: withoutConfig(data) });
+				}
+			},
+
+			getState: () => {
+				return modalStates[modalId] ?? "closed";
+			},
+
+			replaceWith: ((
+				// biome-ignore lint/suspicious/noExplicitAny: component props vary
+				next: ComponentType<any> | string,
+				nextConfig?: ModalReplaceConfig,
+			) => replaceModal(modalId, next, nextConfig)) as ReplaceModal,
+		};
+
+		return modalRef;
+	};
+
+	const openModal = <TResult = unknown, TData = Record<string, unknown>>(
+		// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
+		modal: ComponentType<any> | string,
+		config: ModalConfig<TData> = {},
+	): ModalRef<TResult, TData> =>
+		openModalAfter<TResult, TData>(modal, config, true);
+
+	/** Reopen a modal over itself, settling the previous open as replaced */
+	const updateInPlace = <TResult, TData>(
+		modalId: string,
+		// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
+		next: ComponentType<any> | string,
+		config: ModalConfig<TData>,
+	): ModalRef<TResult, TData> => {
+		const main = modalCallbacks[modalId];
+		const beforeClosed = beforeClosedCallbacks[modalId];
+		const outcome = closeOutcomes[modalId];
+		const opened = openedCallbacks[modalId];
+
+		const nextRef = openModal<TResult, TData>(next, {
+			parent: modalParents[modalId],
+			returnFocus: focusReturns[modalId]?.target,
+			...config,
+		});
+
+		opened?.resolve();
+		beforeClosed?.resolve(undefined);
+		outcome?.resolve({ reason: "replaced", result: undefined });
+		if (main) {
+			nextRef.afterClosed().then(main.resolve, main.reject);
+		}
+		return nextRef;
+	};
+
+	const replaceModal = <TResult = unknown, TData = Record<string, unknown>>(
+		modalId: string,
+		// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
+		next: ComponentType<any> | string,
+		{ overlap = false, ...config }: ModalReplaceConfig<TData> = {},
+	): ModalRef<TResult, TData> => {
+		// Nothing on screen to replace, so just open the next modal
+		if (modalStates[modalId] !== "open") {
+			return openModal<TResult, TData>(next, config);
+		}
+
+		// Replacing a modal with itself updates it in place, as closing it would
+		// also close the replacement sharing its ID
+		const nextId =
+			config.modalId ??
+			(resolveInstance(next, config).instance === "multiple"
+				? undefined
+				: getModalId(next));
+		if (nextId === modalId) {
+			return updateInPlace<TResult, TData>(modalId, next, config);
+		}
+
+		const replacement = createDeferredPromise<unknown>();
+		// Only consumed if the close goes ahead
+		replacement.promise.catch(() => undefined);
+		replacements[modalId] = replacement;
+		const depth = modalDepths[modalId];
+		// The replacement takes over the replaced modal's parent and focus target
+		const nextConfig = {
+			parent: modalParents[modalId],
+			returnFocus: focusReturns[modalId]?.target,
+			...config,
+		};
+
+		const closed = requestClose(modalId, undefined, "replaced");
+		const gate = andThen(closed, () => {
+			if (overlap) {
+				return true;
+			}
+			return getHidePromise(modalId).then(() => true);
+		});
+		if (closed === false) {
+			delete replacements[modalId];
+		} else if (closed !== true) {
+			closed.then((ok) => {
+				if (!ok && replacements[modalId] === replacement) {
+					delete replacements[modalId];
+				}
+			});
+		}
+
+		const nextRef = openModalAfter<TResult, TData>(
+			next,
+			nextConfig,
+			gate,
+			depth,
+		);
+		nextRef.afterClosed().then(replacement.resolve, replacement.reject);
+		return nextRef;
+	};
+
+	const markClosed = (modalId: string): void => {
+		const wasClosed = modalStates[modalId] === "closed";
+		modalStates[modalId] = "closed";
+		// Before the next queued modal opens, so it captures the restored focus
+		restoreFocus(modalId);
+		releaseQueue(modalId);
+		if (!wasClosed && hasBeenShown(modalId)) {
+			const outcome = settledOutcomes[modalId];
+			delete settledOutcomes[modalId];
+			emit("closed", {
+				modalId,
+				result: outcome?.result,
+				reason: outcome?.reason ?? "dismiss",
+			});
+		}
+		// Clean up state after a delay to allow getState() calls
+		setTimeout(() => {
+			if (modalStates[modalId] === "closed") {
+				delete modalStates[modalId];
+				delete closedPromises[modalId];
+			}
+		}, CLEANUP_DELAY_MS);
+	};
+
+	const getOpenModals = ((options?: { tree?: boolean }) => {
+		const modalIds = Object.entries(modalStates)
+			.filter(([_, state]) => state === "open" || state === "closing")
+			.map(([id]) => id)
+			.sort((a, b) => (modalDepths[a] ?? 0) - (modalDepths[b] ?? 0));
+		if (!options?.tree) {
+			return modalIds;
+		}
+
+		// Nest each modal under its parent, when the parent is open too
+		const nodes = new Map<string, ModalTreeNode>(
+			modalIds.map((modalId) => [modalId, { modalId, children: [] }]),
+		);
+		const roots: ModalTreeNode[] = [];
+		for (const node of nodes.values()) {
+			const parentId = modalParents[node.modalId];
+			const parent = parentId === undefined ? undefined : nodes.get(parentId);
+			(parent ? parent.children : roots).push(node);
+		}
+		return roots;
+	}) as GetOpenModals;
+
+	const addChildResultListener = (
+		modalId: string,
+		listener: ModalChildResultListener,
+	): (() => void) => {
+		childResultListeners[modalId] ??= new Set();
+		childResultListeners[modalId].add(listener);
+		return () => {
+			childResultListeners[modalId]?.delete(listener);
+			if (childResultListeners[modalId]?.size === 0) {
+				delete childResultListeners[modalId];
+			}
+		};
+	};
+
+	const getTopModal = (): string | undefined => {
+		return getOpenModals()
+			.filter((id) => modalStates[id] === "open")
+			.at(-1);
+	};
+
+	/** Depth one above the highest modal that is still open */
+	const getNextDepth = (modalId: string): number => {
+		let maxDepth = -1;
+		for (const id of getOpenModals()) {
+			if (id !== modalId && modalStates[id] === "open") {
+				maxDepth = Math.max(maxDepth, modalDepths[id] ?? 0);
+			}
+		}
+		return maxDepth + 1;
+	};
+
+	const getInstances = (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal: ComponentType<any> | string,
+	): string[] => {
+		const registryId = getModalId(modal);
+		return Object.keys(modalStates)
+			.filter(
+				(id) => modalStates[id] !== "closed" && isInstanceOf(id, registryId),
+			)
+			.sort((a, b) => (modalDepths[a] ?? 0) - (modalDepths[b] ?? 0));
+	};
+
+	const closeAllModals = async (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		modal?: ComponentType<any> | string,
+	): Promise<ModalCloseAllResult> => {
+		const registryId = modal === undefined ? undefined : getModalId(modal);
+		const matches = (modalId: string): boolean =>
+			registryId === undefined || isInstanceOf(modalId, registryId);
+
+		// Drop queued modals first so they don't open as the others close
+		for (const [modalId, state] of Object.entries(modalStates)) {
+			if (state === "queued" && matches(modalId)) {
+				discardModal(modalId, "closeAll");
+			}
+		}
+
+		const outcomes = await Promise.all(
+			getOpenModals()
+				.filter(matches)
+				.map(async (modalId) => {
+					// Grab the close promise before animations can resolve it
+					const hidden = getHidePromise(modalId);
+					const closed = await requestClose(modalId, undefined, "closeAll");
+					if (closed) {
+						await hidden;
+					}
+					return { modalId, closed };
+				}),
+		);
+
+		// Report which modals closed and which were kept open by a guard
+		return {
+			closed: outcomes
+				.filter((outcome) => outcome.closed)
+				.map((outcome) => outcome.modalId),
+			refused: outcomes
+				.filter((outcome) => !outcome.closed)
+				.map((outcome) => outcome.modalId),
+		};
+	};
+
+	const hasOpenModals = (): boolean => {
+		return getOpenModals().length > 0;
+	};
+
+	const isPersistable = (modalId: string): boolean =>
+		persistableModals[modalId] ?? false;
+
+	const inspectModal = (modalId: string): ModalInspection => ({
+		state: modalStates[modalId] ?? "closed",
+		pending: {
+			afterOpened: modalId in openedCallbacks,
+			afterClosed: modalId in modalCallbacks,
+			closeAnimation: modalId in hideModalCallbacks,
+			closeGuard: modalId in pendingCloseChecks,
+		},
+	});
+
+	const hydrateModals = (modals: ModalStore): void => {
+		const state = core.store.getSnapshot();
+		for (const modalState of Object.values(modals)) {
+			if (!modalState || state[modalState.modalId]) {
+				continue;
+			}
+			const { modalId, data, instanceOf } = modalState;
+			openModal(instanceOf ?? modalId, { modalId, data });
+			// Rendered open on the server, so skip the delayed open after mount
+			setFlags(modalId, { isOpen: true, delayOpen: false });
+		}
+	};
+
+	const notifyOpened = (modalId: string): void => {
+		if (openedCallbacks[modalId]) {
+			emit("opened", { modalId });
+		}
+		openedCallbacks[modalId]?.resolve();
+		delete openedCallbacks[modalId];
+	};
+
+	return {
+		core,
+		openModal,
+		replaceModal,
+		closeModal,
+		requestClose,
+		addCloseGuard,
+		addChildResultListener,
+		removeModal,
+		discardModal,
+		use,
+		on,
+		failModal,
+		runAction,
+		setFlags,
+		markClosed,
+		notifyOpened,
+		getOpenModals,
+		getTopModal,
+		closeAllModals,
+		getInstances,
+		hasOpenModals,
+		isPersistable,
+		inspectModal,
+		hydrateModals,
+		cleanupModal,
+		cleanupAllModals,
+	};
 };
 
+/**
+ * Default API backing the global ModalManager
+ */
+export const defaultApi: ModalApi = createModalApi(defaultCore);
+
+/**
+ * Clean up all internal state for a modal to prevent memory leaks
+ */
+export const cleanupModal = defaultApi.cleanupModal;
+
 /**
  * Clean up all modal state (useful for testing)
  */
-export const cleanupAllModals = (): void => {
-	const allIds = new Set([
-		...Object.keys(modalCallbacks),
-		...Object.keys(hideModalCallbacks),
-		...Object.keys(openedCallbacks),
-		...Object.keys(beforeClosedCallbacks),
-		...Object.keys(modalStates),
-		...Object.keys(closedPromises),
-	]);
-	for (const id of allIds) {
-		cleanupModal(id);
-	}
-};
+export const cleanupAllModals = defaultApi.cleanupAllModals;
 
 /**
- * Close a modal and return a promise that resolves when the animation completes
+ * Close a modal, consulting its close guards
+ * Resolves to true once the close animation completed, or false if a guard
+ * kept the modal open
  *
  * @example
  * ```tsx
@@ -86,36 +1602,7 @@ export const cleanupAllModals = (): void => {
  * await closeModal('my-modal');
  * ```
  */
-export function closeModal<TResult = unknown>(
-	// biome-ignore lint/suspicious/noExplicitAny: implementation signature needs flexibility
-	modal: string | React.ComponentType<any>,
-): Promise<TResult>;
-
-export function closeModal(
-	// biome-ignore lint/suspicious/noExplicitAny: implementation signature needs flexibility
-	modal: string | React.ComponentType<any>,
-): Promise<unknown> {
-	const modalId = getModalId(modal);
-
-	// Update state
-	modalStates[modalId] = "closing";
-
-	// Dispatch close action
-	getDispatch()(actions.close(modalId));
-
-	// Resolve open promise with undefined when closing directly
-	if (modalCallbacks[modalId]) {
-		modalCallbacks[modalId].resolve(undefined);
-		delete modalCallbacks[modalId];
-	}
-
-	// Create close promise if it doesn't exist
-	if (!hideModalCallbacks[modalId]) {
-		hideModalCallbacks[modalId] = createDeferredPromise();
-	}
-
-	return hideModalCallbacks[modalId].promise;
-}
+export const closeModal = defaultApi.closeModal;
 
 /**
  * Remove a modal from the DOM completely
@@ -126,33 +1613,12 @@ export function closeModal(
  * removeModal('my-modal');
  * ```
  */
-export const removeModal = (
-	modal: string | React.ComponentType<Record<string, unknown>>,
-): void => {
-	const modalId = getModalId(modal);
-
-	// Dispatch remove action
-	getDispatch()(actions.remove(modalId));
-
-	// Resolve any pending promises before cleanup
-	modalCallbacks[modalId]?.resolve(undefined);
-	hideModalCallbacks[modalId]?.resolve(undefined);
-	beforeClosedCallbacks[modalId]?.resolve(undefined);
-	openedCallbacks[modalId]?.resolve();
-
-	// Clean up all callbacks to prevent memory leaks
-	cleanupModal(modalId);
-};
+export const removeModal = defaultApi.removeModal;
 
 /**
  * Set flags on a modal (internal use)
  */
-export const setFlags = (
-	modalId: string,
-	flags: Record<string, unknown>,
-): void => {
-	getDispatch()(actions.setFlags(modalId, flags));
-};
+export const setFlags = defaultApi.setFlags;
 
 /**
  * Open a modal and return a ModalRef for controlling it
@@ -180,156 +1646,16 @@ export const setFlags = (
  * }
  * ```
  */
-export function openModal<TResult = unknown, TData = Record<string, unknown>>(
-	// biome-ignore lint/suspicious/noExplicitAny: Modal components have varying props types due to createModal HOC
-	modal: React.ComponentType<any>,
-	config?: ModalConfig<TData>,
-): ModalRef<TResult, TData>;
-
-export function openModal<TResult = unknown, TData = Record<string, unknown>>(
-	modal: string,
-	config?: ModalConfig<TData>,
-): ModalRef<TResult, TData>;
-
-export function openModal<TResult = unknown, TData = Record<string, unknown>>(
-	// biome-ignore lint/suspicious/noExplicitAny: Implementation signature needs flexibility
-	modal: React.ComponentType<any> | string,
-	config: ModalConfig<TData> = {},
-): ModalRef<TResult, TData> {
-	const modalId = config.modalId ?? getModalId(modal);
-
-	// Auto-register if it's a component and not already registered
-	if (typeof modal !== "string" && !MODAL_REGISTRY[modalId]) {
-		register(modalId, modal);
-	}
-
-	// Track disableClose state for the ref
-	let disableClose = config.disableClose ?? false;
-
-	// Prepare data with internal config
-	const modalConfig: InternalModalConfig = {
-		disableClose,
-		keepMounted: config.keepMounted,
-	};
-	const data: Record<string, unknown> = {
-		...(config.data as Record<string, unknown>),
-		[MODAL_CONFIG_KEY]: modalConfig,
-	};
-
-	// Set initial state
-	modalStates[modalId] = "open";
-
-	// Dispatch open action
-	getDispatch()(actions.open(modalId, data));
-
-	// Set keepMounted flag if specified
-	if (config.keepMounted) {
-		getDispatch()(actions.setFlags(modalId, { keepMounted: true }));
-	}
-
-	// Create show promise
-	const mainCallbacks = createDeferredPromise();
-	modalCallbacks[modalId] = mainCallbacks;
-
-	// Store promise reference that persists after close() for afterClosed()
-	closedPromises[modalId] = mainCallbacks.promise;
-
-	// Create opened promise
-	const openedDeferred = createDeferredPromise<void>();
-	openedCallbacks[modalId] = {
-		resolve: openedDeferred.resolve,
-		promise: openedDeferred.promise,
-	};
-
-	// Create beforeClosed promise
-	const beforeClosedDeferred = createDeferredPromise();
-	beforeClosedCallbacks[modalId] = {
-		resolve: beforeClosedDeferred.resolve,
-		promise: beforeClosedDeferred.promise,
-	};
-
-	// Return the ModalRef
-	const modalRef: ModalRef<TResult, TData> = {
-		modalId,
-		data: config.data,
-
-		get disableClose() {
-			return disableClose;
-		},
-		set disableClose(value: boolean) {
-			disableClose = value;
-			// Update the modal config
-			const currentConfig =
-				(data[MODAL_CONFIG_KEY] as InternalModalConfig) ?? {};
-			const updatedData = {
-				...data,
-				[MODAL_CONFIG_KEY]: {
-					...currentConfig,
-					disableClose: value,
-				},
-			};
-			getDispatch()(actions.setFlags(modalId, { data: updatedData }));
-		},
-
-		close: (result?: TResult) => {
-			if (modalStates[modalId] === "closed") {
-				return;
-			}
-
-			// Trigger beforeClosed
-			modalStates[modalId] = "closing";
-			beforeClosedCallbacks[modalId]?.resolve(result);
-			delete beforeClosedCallbacks[modalId];
-
-			// Resolve the main promise
-			modalCallbacks[modalId]?.resolve(result);
-			delete modalCallbacks[modalId];
-
-			closeModal(modalId);
-		},
-
-		afterOpened: () => {
-			return openedDeferred.promise;
-		},
-
-		afterClosed: () => {
-			return mainCallbacks.promise as Promise<TResult | undefined>;
-		},
-
-		beforeClosed: () => {
-			return beforeClosedDeferred.promise as Promise<TResult | undefined>;
-		},
-
-		updateData: (newData: Partial<TData>) => {
-			Object.assign(data, newData as Record<string, unknown>);
-			getDispatch()(actions.open(modalId, data));
-		},
-
-		getState: () => {
-			return modalStates[modalId] ?? "closed";
-		},
-	};
-
-	return modalRef;
-}
+export const openModal = defaultApi.openModal;
 
 /**
  * Mark a modal as fully closed (called after animation completes)
  * @internal
  */
-export const markClosed = (modalId: string): void => {
-	modalStates[modalId] = "closed";
-	// Clean up state after a delay to allow getState() calls
-	setTimeout(() => {
-		if (modalStates[modalId] === "closed") {
-			delete modalStates[modalId];
-			delete closedPromises[modalId];
-		}
-	}, CLEANUP_DELAY_MS);
-};
+export const markClosed = defaultApi.markClosed;
 
 /**
- * Get all currently open modal IDs
+ * Get all currently open modal IDs, ordered from bottom to top
  *
  * @example
  * ```tsx
@@ -337,16 +1663,26 @@ export const markClosed = (modalId: string): void => {
  * console.log(`${openModals.length} modals are open`);
  * ```
  */
-export const getOpenModals = (): string[] => {
-	return Object.entries(modalStates)
-		.filter(([_, state]) => state === "open" || state === "closing")
-		.map(([id]) => id);
-};
+export const getOpenModals = defaultApi.getOpenModals;
+
+/**
+ * Get the ID of the topmost open modal
+ *
+ * @example
+ * ```tsx
+ * const topId = ModalManager.getTop();
+ * if (topId) {
+ *   ModalManager.close(topId);
+ * }
+ * ```
+ */
+export const getTopModal = defaultApi.getTopModal;
 
 /**
  * Close all open modals
  * Useful for navigation, logout, or error handling scenarios
- * Returns a promise that resolves when all modals are hidden
+ * Returns a promise that resolves when all modals are hidden, reporting
+ * the modals whose close guards refused
  *
  * @example
  * ```tsx
@@ -359,34 +1695,14 @@ export const getOpenModals = (): string[] => {
  *
  * // Close all modals on logout
  * const handleLogout = async () => {
- *   await closeAllModals();
- *   logout();
+ *   const { refused } = await closeAllModals();
+ *   if (refused.length === 0) {
+ *     logout();
+ *   }
  * };
  * ```
  */
-export const closeAllModals = async (): Promise<void> => {
-	const openModals = getOpenModals();
-
-	// Collect all close promises to await them
-	const closePromises: Promise<unknown>[] = [];
-
-	for (const modalId of openModals) {
-		// Trigger beforeClosed
-		modalStates[modalId] = "closing";
-		beforeClosedCallbacks[modalId]?.resolve(undefined);
-		delete beforeClosedCallbacks[modalId];
-
-		// Resolve the main promise with undefined
-		modalCallbacks[modalId]?.resolve(undefined);
-		delete modalCallbacks[modalId];
-
-		// Close the modal and collect the promise
-		closePromises.push(closeModal(modalId));
-	}
-
-	// Wait for all close animations to complete
-	await Promise.all(closePromises);
-};
+export const closeAllModals = defaultApi.closeAllModals;
 
 /**
  * Check if any modals are currently open
@@ -398,14 +1714,9 @@ export const closeAllModals = async (): Promise<void> => {
  * }
  * ```
  */
-export const hasOpenModals = (): boolean => {
-	return getOpenModals().length > 0;
-};
+export const hasOpenModals = defaultApi.hasOpenModals;
 
 /**
  * Notify that a modal has been opened (called internally after mount/animation)
  */
-export const notifyOpened = (modalId: string): void => {
-	openedCallbacks[modalId]?.resolve();
-	delete openedCallbacks[modalId];
-};
+export const notifyOpened = defaultApi.notifyOpened;
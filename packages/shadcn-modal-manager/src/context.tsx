@@ -1,24 +1,36 @@
 import {
+	Component,
 	type ComponentType,
 	createContext,
 	type ReactNode,
+	Suspense,
 	useContext,
 	useEffect,
 	useMemo,
-	useReducer,
+	useRef,
+	useSyncExternalStore,
 } from "react";
-import { closeModal, openModal } from "./api";
-import {
-	ALREADY_MOUNTED,
-	getUid,
-	initialState,
-	MODAL_REGISTRY,
-	reducer,
-	register,
-	setDispatch,
-	unregister,
-} from "./core";
-import type { ModalProviderProps, ModalStore } from "./types";
+import { defaultApi, type ModalApi } from "./api";
+import { getUid, initialState } from "./core";
+import { listenForModalHotkeys } from "./hotkeys";
+import { bindModalPersistence } from "./persist";
+import type {
+	ModalAction,
+	ModalDialogRenderer,
+	ModalErrorFallbackProps,
+	ModalExternalStore,
+	ModalProviderProps,
+	ModalRegistryEntry,
+	ModalStore,
+} from "./types";
+
+/** Read-only view of a modal store, as consumed by useSyncExternalStore */
+export type ModalStoreReader = Pick<
+	ModalExternalStore,
+	"getSnapshot" | "getServerSnapshot" | "subscribe"
+>;
+
+const noop = () => undefined;
 
 /**
  * Context for the modal store
@@ -30,11 +42,103 @@ export const ModalContext = createContext<ModalStore>(initialState);
  */
 export const ModalIdContext = createContext<string | null>(null);
 
+/**
+ * Context for the modal API of the nearest ModalProvider's manager
+ * @internal
+ */
+export const ModalApiContext = createContext<ModalApi>(defaultApi);
+
+/**
+ * Context for the store the nearest ModalProvider reads from
+ * @internal
+ */
+export const ModalStoreContext = createContext<ModalStoreReader>(
+	defaultApi.core.store,
+);
+
+/**
+ * Context for the renderer of confirm(), alert() and prompt() dialogs
+ * @internal
+ */
+export const ModalDialogRendererContext = createContext<
+	ModalDialogRenderer | undefined
+>(undefined);
+
+/** Provider options that control how modals are rendered */
+type ModalPlaceholderProps = Pick<
+	ModalProviderProps,
+	"fallback" | "onError" | "errorFallback" | "dialogRenderer"
+>;
+
+interface ModalErrorBoundaryProps extends ModalPlaceholderProps {
+	api: ModalApi;
+	modalId: string;
+	children: ReactNode;
+}
+
+interface ModalErrorBoundaryState {
+	failed: boolean;
+	error: unknown;
+}
+
+/**
+ * Error boundary around a single modal
+ * A modal that throws is closed with the "error" reason and removed, so it
+ * can't take the provider (and the app) down or leave afterClosed() hanging
+ */
+class ModalErrorBoundary extends Component<
+	ModalErrorBoundaryProps,
+	ModalErrorBoundaryState
+> {
+	state: ModalErrorBoundaryState = { failed: false, error: undefined };
+
+	static getDerivedStateFromError(error: unknown): ModalErrorBoundaryState {
+		return { failed: true, error };
+	}
+
+	componentDidCatch(error: unknown): void {
+		const { api, modalId, onError, errorFallback } = this.props;
+		api.failModal(modalId, error);
+		onError?.(modalId, error);
+
+		// Keep the entry while the fallback is shown, it removes it on dismiss
+		if (!errorFallback) {
+			api.discardModal(modalId, "remove");
+		}
+	}
+
+	render(): ReactNode {
+		const { api, modalId, errorFallback: ErrorFallback, children } = this.props;
+		if (!this.state.failed) {
+			return children;
+		}
+		if (!ErrorFallback) {
+			return null;
+		}
+
+		const fallbackProps: ModalErrorFallbackProps = {
+			modalId,
+			error: this.state.error,
+			dismiss: () => api.discardModal(modalId, "remove"),
+		};
+		return <ErrorFallback {...fallbackProps} />;
+	}
+}
+
 /**
  * Component that renders all currently visible modals from the registry
+ * Each modal gets its own error and Suspense boundaries so lazy modals load
+ * independently and a broken modal only takes itself down
  */
-function ModalPlaceholder(): ReactNode {
+function ModalPlaceholder({
+	fallback,
+	onError,
+	errorFallback,
+	dialogRenderer,
+}: ModalPlaceholderProps): ReactNode {
 	const modals = useContext(ModalContext);
+	const api = useContext(ModalApiContext);
+	const { core } = api;
 	const visibleModalIds = Object.keys(modals).filter(
 		(id) => modals[id] !== undefined,
 	);
@@ -42,15 +146,16 @@ function ModalPlaceholder(): ReactNode {
 	// Build render list and warn about unregistered modals in single pass
 	const toRender: Array<{
 		id: string;
-		comp: (typeof MODAL_REGISTRY)[string]["comp"];
-		props: (typeof MODAL_REGISTRY)[string]["props"];
+		comp: ModalRegistryEntry["comp"];
+		props: ModalRegistryEntry["props"];
 	}> = [];
 
 	for (const id of visibleModalIds) {
-		const entry = MODAL_REGISTRY[id];
+		// Instances of multi-instance modals share their registry entry
+		const entry = core.registry[modals[id]?.instanceOf ?? id];
 		if (entry) {
 			toRender.push({ id, comp: entry.comp, props: entry.props });
-		} else if (!ALREADY_MOUNTED[id]) {
+		} else if (!core.alreadyMounted[id]) {
 			console.warn(
 				`[ModalManager] No modal found for id: ${id}. ` +
 					"Please check if it is registered or declared via JSX.",
@@ -59,30 +164,115 @@ function ModalPlaceholder(): ReactNode {
 	}
 
 	return (
-		<>
+		<ModalDialogRendererContext.Provider value={dialogRenderer}>
 			{toRender.map(({ id, comp: Comp, props }) => (
-				<Comp key={id} modalId={id} {...props} />
+				<ModalErrorBoundary
+					api={api}
+					errorFallback={errorFallback}
+					key={id}
+					modalId={id}
+					onError={onError}
+				>
+					<Suspense fallback={fallback}>
+						<Comp modalId={id} {...props} />
+					</Suspense>
+				</ModalErrorBoundary>
 			))}
-		</>
+		</ModalDialogRendererContext.Provider>
 	);
 }
 
 /**
- * Internal provider that creates its own reducer
+ * Internal provider that subscribes to the manager's own store
  */
 function InnerContextProvider({
+	api,
+	children,
+	initialModals,
+	placeholder,
+}: {
+	api: ModalApi;
+	children: ReactNode;
+	initialModals?: ModalStore;
+	placeholder: ModalPlaceholderProps;
+}): ReactNode {
+	const { store } = api.core;
+	// Route actions back into the store (undoes any external dispatch)
+	api.core.setDispatch(store.dispatch);
+
+	// Seed the store during the first render so the server renders these
+	// modals open and the client hydrates them without an effect
+	const hydrated = useRef(false);
+	if (initialModals && !hydrated.current) {
+		hydrated.current = true;
+		api.hydrateModals(initialModals);
+	}
+
+	const modals = useSyncExternalStore(
+		store.subscribe,
+		store.getSnapshot,
+		store.getServerSnapshot,
+	);
+
+	return (
+		<ModalStoreContext.Provider value={store}>
+			<ModalContext.Provider value={modals}>
+				{children}
+				<ModalPlaceholder {...placeholder} />
+			</ModalContext.Provider>
+		</ModalStoreContext.Provider>
+	);
+}
+
+/**
+ * Internal provider backed by externally managed state (Redux, etc.)
+ */
+function ExternalContextProvider({
+	api,
+	dispatch,
+	modals,
 	children,
+	placeholder,
 }: {
+	api: ModalApi;
+	dispatch: (action: ModalAction) => void;
+	modals: ModalStore;
 	children: ReactNode;
+	placeholder: ModalPlaceholderProps;
 }): ReactNode {
-	const [modals, dispatch] = useReducer(reducer, initialState);
-	setDispatch(dispatch);
+	api.core.setDispatch(dispatch);
+
+	// Keep the manager's store, which mirrors dispatched actions, in line with
+	// the external state it is given
+	useEffect(() => {
+		api.core.store.setState(modals);
+	}, [api, modals]);
+
+	// Hand dispatch back to the manager's own store once unmounted
+	useEffect(
+		() => () => {
+			api.core.setDispatch(api.core.store.dispatch);
+		},
+		[api],
+	);
+
+	// Updates arrive through props, so the reader never needs to notify
+	const store = useMemo<ModalStoreReader>(
+		() => ({
+			getSnapshot: () => modals,
+			getServerSnapshot: () => modals,
+			subscribe: () => noop,
+		}),
+		[modals],
+	);
 
 	return (
-		<ModalContext.Provider value={modals}>
-			{children}
-			<ModalPlaceholder />
-		</ModalContext.Provider>
+		<ModalStoreContext.Provider value={store}>
+			<ModalContext.Provider value={modals}>
+				{children}
+				<ModalPlaceholder {...placeholder} />
+			</ModalContext.Provider>
+		</ModalStoreContext.Provider>
 	);
 }
 
@@ -100,26 +290,110 @@ function InnerContextProvider({
  * <ModalProvider dispatch={dispatch} modals={modals}>
  *   <App />
  * </ModalProvider>
+ *
+ * // With an isolated manager (micro-frontends, embedded widgets)
+ * const widgetModals = createModalManager();
+ * <ModalProvider manager={widgetModals}>
+ *   <Widget />
+ * </ModalProvider>
+ *
+ * // With a fallback shown while lazy modals load
+ * <ModalProvider fallback={<Spinner />}>
+ *   <App />
+ * </ModalProvider>
+ *
+ * // Report modals that throw while rendering
+ * <ModalProvider onError={(modalId, error) => reportError(error)}>
+ *   <App />
+ * </ModalProvider>
+ *
+ * // Reopen persistable modals after a reload
+ * <ModalProvider persist={{ storage: sessionStorage }}>
+ *   <App />
+ * </ModalProvider>
+ *
+ * // Log every action with the store before and after it
+ * <ModalProvider onAction={(action, prev, next) => console.log(action, next)}>
+ *   <App />
+ * </ModalProvider>
+ *
+ * // Render confirm(), alert() and prompt() with your shadcn AlertDialog
+ * <ModalProvider dialogRenderer={createShadcnDialogRenderer(alertDialogParts)}>
+ *   <App />
+ * </ModalProvider>
+ *
+ * // Render a modal open on the server, with one manager per request
+ * <ModalProvider
+ *   manager={requestModals}
+ *   initialModals={{ consent: { modalId: "consent" } }}
+ * >
+ *   <App />
+ * </ModalProvider>
  * ```
  */
 export function ModalProvider({
 	children,
 	dispatch: givenDispatch,
 	modals: givenModals,
+	manager,
+	fallback,
+	onError,
+	errorFallback,
+	persist,
+	initialModals,
+	onAction,
+	dialogRenderer,
 }: ModalProviderProps): ReactNode {
+	const api = manager?.api ?? defaultApi;
+
+	useEffect(
+		() => (onAction ? api.core.onAction(onAction) : undefined),
+		[api, onAction],
+	);
+
+	// Bind to the storage rather than the options object, which is often inline
+	const { storage, key } = persist ?? {};
+	useEffect(
+		() => (storage ? bindModalPersistence(api, { storage, key }) : undefined),
+		[api, storage, key],
+	);
+
+	useEffect(() => listenForModalHotkeys(api), [api]);
+	const placeholder: ModalPlaceholderProps = {
+		fallback,
+		onError,
+		errorFallback,
+		dialogRenderer,
+	};
+
 	// If external state management is provided, use it
 	if (givenDispatch && givenModals) {
-		setDispatch(givenDispatch);
 		return (
-			<ModalContext.Provider value={givenModals}>
-				{children}
-				<ModalPlaceholder />
-			</ModalContext.Provider>
+			<ModalApiContext.Provider value={api}>
+				<ExternalContextProvider
+					api={api}
+					dispatch={givenDispatch}
+					modals={givenModals}
+					placeholder={placeholder}
+				>
+					{children}
+				</ExternalContextProvider>
+			</ModalApiContext.Provider>
 		);
 	}
 
 	// Otherwise, use internal state management
-	return <InnerContextProvider>{children}</InnerContextProvider>;
+	return (
+		<ModalApiContext.Provider value={api}>
+			<InnerContextProvider
+				api={api}
+				initialModals={initialModals}
+				placeholder={placeholder}
+			>
+				{children}
+			</InnerContextProvider>
+		</ModalApiContext.Provider>
+	);
 }
 
 /**
@@ -138,12 +412,14 @@ export function ModalDefinition({
 	// biome-ignore lint/suspicious/noExplicitAny: component props vary
 	component: ComponentType<any>;
 }): ReactNode {
+	const { core } = useContext(ModalApiContext);
+
 	useEffect(() => {
-		register(id, component);
+		core.register(id, component);
 		return () => {
-			unregister(id);
+			core.unregister(id);
 		};
-	}, [id, component]);
+	}, [core, id, component]);
 
 	return null;
 }
@@ -174,11 +450,12 @@ export function ModalHolder({
 	};
 	[key: string]: unknown;
 }): ReactNode {
+	const api = useContext(ModalApiContext);
 	const mid = useMemo(() => getUid(), []);
 
 	// biome-ignore lint/suspicious/noExplicitAny: component props vary
 	const ModalComp: ComponentType<any> | undefined =
-		typeof modal === "string" ? MODAL_REGISTRY[modal]?.comp : modal;
+		typeof modal === "string" ? api.core.registry[modal]?.comp : modal;
 
 	if (!handler) {
 		throw new Error("[ModalManager] No handler found in ModalHolder.");
@@ -193,14 +470,14 @@ export function ModalHolder({
 	// Attach open/close methods to handler after mount
 	useEffect(() => {
 		handler.open = (data?: Record<string, unknown>) => {
-			const ref = openModal(mid, { data });
+			const ref = api.openModal(mid, { data });
 			return ref.afterClosed();
 		};
 
 		handler.close = () => {
-			return closeModal(mid);
+			return api.closeModal(mid);
 		};
-	}, [mid, handler]);
+	}, [api, mid, handler]);
 
 	return <ModalComp modalId={mid} {...restProps} />;
 }
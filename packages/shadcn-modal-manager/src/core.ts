@@ -1,53 +1,37 @@
-import type { ComponentType, Dispatch } from "react";
+import { type ComponentType, type Dispatch, lazy } from "react";
+import { createModalStore } from "./store";
 import type {
 	DeferredPromise,
 	ModalAction,
+	ModalActionListener,
+	ModalExternalStore,
 	ModalHocProps,
+	ModalInstanceMode,
+	ModalLoader,
 	ModalRegistryEntry,
+	ModalStackEntry,
 	ModalStore,
 } from "./types";
 
 /** Symbol for storing modal IDs on component functions */
 const symModalId: unique symbol = Symbol("ModalManagerId");
 
+/** Symbol for storing the instance mode on component functions */
+const symModalInstance: unique symbol = Symbol("ModalManagerInstance");
+
+/** Symbol marking components whose open modals survive reloads */
+const symModalPersistable: unique symbol = Symbol("ModalManagerPersistable");
+
 /** Type for components with attached modal ID */
 type ComponentWithModalId = ComponentType<Record<string, unknown>> & {
 	[symModalId]?: string;
+	[symModalInstance]?: ModalInstanceMode;
+	[symModalPersistable]?: boolean;
 };
 
 // Initial empty state
 export const initialState: ModalStore = {};
 
-// Modal registry - maps IDs to component definitions
-export const MODAL_REGISTRY: Record<string, ModalRegistryEntry> = {};
-
-// Track already mounted modals for delayed visibility
-export const ALREADY_MOUNTED: Record<string, boolean> = {};
-
-/** Promise callbacks for modal open/close resolution */
-export const modalCallbacks: Record<string, DeferredPromise<unknown>> = {};
-export const hideModalCallbacks: Record<string, DeferredPromise<unknown>> = {};
-
-/**
- * Cleanup all callbacks for a modal (prevents memory leaks)
- */
-export const cleanupCallbacks = (modalId: string): void => {
-	delete modalCallbacks[modalId];
-	delete hideModalCallbacks[modalId];
-};
-
-/**
- * Cleanup all callbacks (useful for testing or full reset)
- */
-export const cleanupAllCallbacks = (): void => {
-	for (const key of Object.keys(modalCallbacks)) {
-		delete modalCallbacks[key];
-	}
-	for (const key of Object.keys(hideModalCallbacks)) {
-		delete hideModalCallbacks[key];
-	}
-};
-
 // UID counter for generating unique IDs
 let uidSeed = 0;
 
@@ -60,20 +44,17 @@ export const resetUidSeed = (): void => {
 	uidSeed = 0;
 };
 
-// Note: If you need external store subscriptions, implement useSyncExternalStore support here
-
-// Global dispatch function - set by Provider
-let dispatchFn: Dispatch<ModalAction> = () => {
-	throw new Error(
-		"No dispatch method detected. Did you wrap your app with ModalProvider?",
-	);
-};
-
 /**
  * Generate a unique modal ID
  */
 export const getUid = (): string => `_modal_${uidSeed++}`;
 
+/**
+ * Whether an ID was generated by getUid(), so it differs between page loads
+ * @internal
+ */
+export const isUid = (id: string): boolean => /^_modal_\d+$/.test(id);
+
 /**
  * Get the modal ID from a string or component
  */
@@ -91,33 +72,65 @@ export const getModalId = (
 };
 
 /**
- * Get a registered modal component by ID
+ * Set whether opening a component reuses its slot or creates a new instance
+ * @internal
  */
-export const getModal = (
-	modalId: string,
-): ComponentType<ModalHocProps & Record<string, unknown>> | undefined => {
-	return MODAL_REGISTRY[modalId]?.comp;
+export const setModalInstanceMode = (
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any>,
+	mode: ModalInstanceMode,
+): void => {
+	(modal as ComponentWithModalId)[symModalInstance] = mode;
 };
 
 /**
- * Set the global dispatch function
+ * Get the instance mode of a component ("single" unless created otherwise)
+ * @internal
+ */
+export const getModalInstanceMode = (
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any>,
+): ModalInstanceMode =>
+	(modal as ComponentWithModalId)[symModalInstance] ?? "single";
+
+/**
+ * Mark a component's open modals as persistable across reloads
+ * @internal
  */
-export const setDispatch = (fn: Dispatch<ModalAction>): void => {
-	dispatchFn = fn;
+export const setModalPersistable = (
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any>,
+	persistable: boolean,
+): void => {
+	(modal as ComponentWithModalId)[symModalPersistable] = persistable;
 };
 
 /**
- * Get the current dispatch function
+ * Whether a component was created as persistable
+ * @internal
  */
-export const getDispatch = (): Dispatch<ModalAction> => dispatchFn;
+export const isModalPersistable = (
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any>,
+): boolean => (modal as ComponentWithModalId)[symModalPersistable] ?? false;
 
 /**
  * Action creators
  */
 export const actions = {
-	open: (modalId: string, data?: Record<string, unknown>): ModalAction => ({
+	open: (
+		modalId: string,
+		data?: Record<string, unknown>,
+		depth?: number,
+		instanceOf?: string,
+	): ModalAction => ({
 		type: "shadcn-modal-manager/show",
-		payload: { modalId, data },
+		payload: {
+			modalId,
+			data,
+			...(depth === undefined ? {} : { depth }),
+			...(instanceOf === undefined ? {} : { instanceOf }),
+		},
 	}),
 
 	close: (modalId: string): ModalAction => ({
@@ -137,90 +150,325 @@ export const actions = {
 };
 
 /**
- * Reducer for modal state management
+ * Get the open modals of a store ordered from bottom to top
  */
-export const reducer = (state: ModalStore, action: ModalAction): ModalStore => {
-	switch (action.type) {
-		case "shadcn-modal-manager/show": {
-			const { modalId, data } = action.payload;
-			return {
-				...state,
-				[modalId]: {
-					...state[modalId],
-					modalId,
-					data,
-					// If already mounted, show immediately; otherwise delay
-					isOpen: !!ALREADY_MOUNTED[modalId],
-					delayOpen: !ALREADY_MOUNTED[modalId],
-				},
-			};
+export const getModalStack = (state: ModalStore): ModalStackEntry[] => {
+	const entries: ModalStackEntry[] = [];
+	for (const modalState of Object.values(state)) {
+		if (modalState && (modalState.isOpen || modalState.delayOpen)) {
+			entries.push({
+				modalId: modalState.modalId,
+				depth: modalState.depth ?? 0,
+				data: modalState.data,
+			});
 		}
+	}
+	// Stable sort keeps insertion order for equal depths
+	return entries.sort((a, b) => a.depth - b.depth);
+};
 
-		case "shadcn-modal-manager/hide": {
-			const { modalId } = action.payload;
-			const modalState = state[modalId];
-			if (!modalState) {
-				return state;
+/**
+ * Create a reducer bound to a set of mounted modals
+ * The mounted map decides whether a newly shown modal opens immediately
+ */
+export const createReducer =
+	(alreadyMounted: Record<string, boolean>) =>
+	(state: ModalStore, action: ModalAction): ModalStore => {
+		switch (action.type) {
+			case "shadcn-modal-manager/show": {
+				const { modalId, data, depth, instanceOf } = action.payload;
+				return {
+					...state,
+					[modalId]: {
+						...state[modalId],
+						...(depth === undefined ? {} : { depth }),
+						...(instanceOf === undefined ? {} : { instanceOf }),
+						modalId,
+						data,
+						// If already mounted, show immediately; otherwise delay
+						isOpen: !!alreadyMounted[modalId],
+						delayOpen: !alreadyMounted[modalId],
+					},
+				};
 			}
-			return {
-				...state,
-				[modalId]: {
-					...modalState,
-					isOpen: false,
-				},
-			};
+
+			case "shadcn-modal-manager/hide": {
+				const { modalId } = action.payload;
+				const modalState = state[modalId];
+				if (!modalState) {
+					return state;
+				}
+				return {
+					...state,
+					[modalId]: {
+						...modalState,
+						isOpen: false,
+					},
+				};
+			}
+
+			case "shadcn-modal-manager/remove": {
+				const { modalId } = action.payload;
+				const newState = { ...state };
+				delete newState[modalId];
+				return newState;
+			}
+
+			case "shadcn-modal-manager/set-flags": {
+				const { modalId, flags } = action.payload;
+				const existingState = state[modalId];
+				// Only set flags if the modal exists
+				if (!existingState) {
+					return state;
+				}
+				return {
+					...state,
+					[modalId]: {
+						...existingState,
+						...flags,
+					},
+				};
+			}
+
+			default:
+				return state;
 		}
+	};
+
+/**
+ * Isolated registry, callback and dispatch state for one modal manager
+ */
+export interface ModalCore {
+	/** Modal registry - maps IDs to component definitions */
+	readonly registry: Record<string, ModalRegistryEntry>;
+	/** Track already mounted modals for delayed visibility */
+	readonly alreadyMounted: Record<string, boolean>;
+	/** Promise callbacks for modal open resolution */
+	readonly modalCallbacks: Record<string, DeferredPromise<unknown>>;
+	/** Promise callbacks for modal close (animation end) resolution */
+	readonly hideModalCallbacks: Record<string, DeferredPromise<unknown>>;
+	/** Reducer bound to this core's mounted modals */
+	readonly reducer: (state: ModalStore, action: ModalAction) => ModalStore;
+	/** Store holding the modal state when no external dispatch is set */
+	readonly store: ModalExternalStore;
+	/** Get a registered modal component by ID */
+	getModal: (
+		modalId: string,
+	) => ComponentType<ModalHocProps & Record<string, unknown>> | undefined;
+	/** Override the dispatch function (e.g. for Redux integration) */
+	setDispatch: (fn: Dispatch<ModalAction>) => void;
+	/** Get a dispatch that forwards to the current dispatch function */
+	getDispatch: () => Dispatch<ModalAction>;
+	/**
+	 * Listen for every action dispatched through this core
+	 * @returns Function that removes the listener
+	 */
+	onAction: (listener: ModalActionListener) => () => void;
+	/** Register a modal component */
+	register: (
+		id: string,
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		comp: ComponentType<any>,
+		props?: Record<string, unknown>,
+	) => void;
+	/** Register a modal component loaded on demand (code splitting) */
+	registerLazy: (
+		id: string,
+		load: ModalLoader,
+		props?: Record<string, unknown>,
+	) => void;
+	/** Load a lazily registered modal's chunk ahead of time */
+	preload: (id: string) => Promise<void>;
+	/** Unregister a modal component */
+	unregister: (id: string) => void;
+	/** ID a component was registered under by name, stable across page loads */
+	getRegisteredId: (
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		comp: ComponentType<any>,
+	) => string | undefined;
+	/** Cleanup all callbacks for a modal (prevents memory leaks) */
+	cleanupCallbacks: (modalId: string) => void;
+	/** Cleanup all callbacks (useful for testing or full reset) */
+	cleanupAllCallbacks: () => void;
+}
+
+/**
+ * Create an isolated modal core with its own registry, callbacks and dispatch
+ */
+export const createModalCore = (): ModalCore => {
+	const registry: Record<string, ModalRegistryEntry> = {};
+	const alreadyMounted: Record<string, boolean> = {};
+	const modalCallbacks: Record<string, DeferredPromise<unknown>> = {};
+	const hideModalCallbacks: Record<string, DeferredPromise<unknown>> = {};
+	// Components registered under a name rather than a generated ID
+	const registeredIds = new WeakMap<object, string>();
+	const reducer = createReducer(alreadyMounted);
+	const store = createModalStore(reducer, initialState);
+
+	// Dispatch into the store until an external dispatch is provided
+	let dispatchFn: Dispatch<ModalAction> = store.dispatch;
 
-		case "shadcn-modal-manager/remove": {
-			const { modalId } = action.payload;
-			const newState = { ...state };
-			delete newState[modalId];
-			return newState;
+	// Report actions after they were handled, whichever dispatch handled them
+	const actionListeners = new Set<ModalActionListener>();
+	const dispatch: Dispatch<ModalAction> = (action) => {
+		const prevState = store.getSnapshot();
+		dispatchFn(action);
+		// An external dispatch updates its own state, so mirror the action into
+		// the store for listeners and readers of store
+		if (dispatchFn !== store.dispatch) {
+			store.dispatch(action);
 		}
+		const nextState = store.getSnapshot();
+		for (const listener of actionListeners) {
+			listener(action, prevState, nextState);
+		}
+	};
 
-		case "shadcn-modal-manager/set-flags": {
-			const { modalId, flags } = action.payload;
-			const existingState = state[modalId];
-			// Only set flags if the modal exists
-			if (!existingState) {
-				return state;
+	return {
+		registry,
+		alreadyMounted,
+		modalCallbacks,
+		hideModalCallbacks,
+		reducer,
+		store,
+
+		getModal: (modalId) => registry[modalId]?.comp,
+
+		setDispatch: (fn) => {
+			dispatchFn = fn;
+		},
+
+		getDispatch: () => dispatch,
+
+		onAction: (listener) => {
+			actionListeners.add(listener);
+			return () => {
+				actionListeners.delete(listener);
+			};
+		},
+
+		register: (id, comp, props) => {
+			if (registry[id]) {
+				registry[id].props = props;
+			} else {
+				registry[id] = {
+					comp: comp as ComponentType<ModalHocProps & Record<string, unknown>>,
+					props,
+				};
 			}
-			return {
-				...state,
-				[modalId]: {
-					...existingState,
-					...flags,
-				},
+			if (!isUid(id) && registry[id].comp === comp) {
+				registeredIds.set(comp, id);
+			}
+		},
+
+		registerLazy: (id, load, props) => {
+			if (registry[id]) {
+				registry[id].props = props;
+				return;
+			}
+
+			// Share one request between preload() and rendering, retry on failure
+			let loading: ReturnType<ModalLoader> | undefined;
+			const loadOnce = (): ReturnType<ModalLoader> => {
+				loading ??= load().catch((error: unknown) => {
+					loading = undefined;
+					throw error;
+				});
+				return loading;
 			};
-		}
 
-		default:
-			return state;
-	}
+			registry[id] = {
+				comp: lazy(loadOnce),
+				props,
+				preload: () => loadOnce().then(() => undefined),
+			};
+		},
+
+		preload: (id) => registry[id]?.preload?.() ?? Promise.resolve(),
+
+		unregister: (id) => {
+			const comp = registry[id]?.comp;
+			if (comp && registeredIds.get(comp) === id) {
+				registeredIds.delete(comp);
+			}
+			delete registry[id];
+		},
+
+		getRegisteredId: (comp) => registeredIds.get(comp),
+
+		cleanupCallbacks: (modalId) => {
+			delete modalCallbacks[modalId];
+			delete hideModalCallbacks[modalId];
+		},
+
+		cleanupAllCallbacks: () => {
+			for (const key of Object.keys(modalCallbacks)) {
+				delete modalCallbacks[key];
+			}
+			for (const key of Object.keys(hideModalCallbacks)) {
+				delete hideModalCallbacks[key];
+			}
+		},
+	};
 };
 
+/**
+ * Default core backing the global ModalManager and ModalProvider
+ */
+export const defaultCore: ModalCore = createModalCore();
+
+// Default instance state, exported for backwards compatibility
+export const MODAL_REGISTRY = defaultCore.registry;
+export const ALREADY_MOUNTED = defaultCore.alreadyMounted;
+export const modalCallbacks = defaultCore.modalCallbacks;
+export const hideModalCallbacks = defaultCore.hideModalCallbacks;
+
+/**
+ * Reducer for modal state management
+ */
+export const reducer = defaultCore.reducer;
+
+/**
+ * Cleanup all callbacks for a modal (prevents memory leaks)
+ */
+export const cleanupCallbacks = defaultCore.cleanupCallbacks;
+
+/**
+ * Cleanup all callbacks (useful for testing or full reset)
+ */
+export const cleanupAllCallbacks = defaultCore.cleanupAllCallbacks;
+
+/**
+ * Get a registered modal component by ID
+ */
+export const getModal = defaultCore.getModal;
+
+/**
+ * Override the global dispatch function
+ */
+export const setDispatch = defaultCore.setDispatch;
+
+/**
+ * Get the current dispatch function
+ */
+export const getDispatch = defaultCore.getDispatch;
+
 /**
  * Register a modal component
  */
-export const register = (
-	id: string,
-	// biome-ignore lint/suspicious/noExplicitAny: component props vary
-	comp: ComponentType<any>,
-	props?: Record<string, unknown>,
-): void => {
-	if (MODAL_REGISTRY[id]) {
-		MODAL_REGISTRY[id].props = props;
-	} else {
-		MODAL_REGISTRY[id] = {
-			comp: comp as ComponentType<ModalHocProps & Record<string, unknown>>,
-			props,
-		};
-	}
-};
+export const register = defaultCore.register;
+
+/**
+ * Register a modal component loaded on demand
+ */
+export const registerLazy = defaultCore.registerLazy;
+
+/**
+ * Load a lazily registered modal's chunk ahead of time
+ */
+export const preload = defaultCore.preload;
 
 /**
  * Unregister a modal component
  */
-export const unregister = (id: string): void => {
-	delete MODAL_REGISTRY[id];
-};
+export const unregister = defaultCore.unregister;
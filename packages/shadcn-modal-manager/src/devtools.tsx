@@ -0,0 +1,183 @@
+import {
+	type CSSProperties,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useState,
+} from "react";
+import { ModalApiContext } from "./context";
+import { useModalStore } from "./hooks";
+import type { ModalAction } from "./types";
+
+/** Prefix shared by every action type, left out of the timeline */
+const ACTION_PREFIX = "shadcn-modal-manager/";
+
+/**
+ * Props for ModalDevTools
+ */
+export interface ModalDevToolsProps {
+	/** Start expanded instead of as a single toggle button */
+	initialOpen?: boolean;
+	/** Number of actions kept in the timeline (default 50) */
+	maxActions?: number;
+}
+
+interface TimelineEntry {
+	id: number;
+	time: string;
+	action: ModalAction;
+}
+
+const styles = {
+	panel: {
+		position: "fixed",
+		right: 8,
+		bottom: 8,
+		zIndex: 2_147_483_647,
+		maxWidth: 420,
+		maxHeight: "60vh",
+		overflow: "auto",
+		padding: 8,
+		border: "1px solid #d4d4d8",
+		borderRadius: 6,
+		background: "#fff",
+		color: "#18181b",
+		font: "12px/1.4 ui-monospace, monospace",
+	},
+	heading: { margin: "8px 0 4px", fontSize: 12 },
+	list: { margin: 0, paddingLeft: 16 },
+	button: { marginLeft: 4, font: "inherit" },
+	data: { margin: "2px 0", whiteSpace: "pre-wrap" },
+} satisfies Record<string, CSSProperties>;
+
+/** Modal data as text, tolerating values JSON can't represent */
+const formatData = (data: unknown): string => {
+	try {
+		return JSON.stringify(data) ?? "undefined";
+	} catch {
+		return "[unserializable]";
+	}
+};
+
+/**
+ * Development panel for inspecting and driving modals
+ * Lists registered modals, the modals in the store with their lifecycle
+ * state, flags, unsettled promises and data, and a timeline of actions.
+ * Render it inside a ModalProvider, only in development:
+ *
+ * @example
+ * ```tsx
+ * <ModalProvider>
+ *   <App />
+ *   {process.env.NODE_ENV === "development" && <ModalDevTools />}
+ * </ModalProvider>
+ * ```
+ */
+export function ModalDevTools({
+	initialOpen = false,
+	maxActions = 50,
+}: ModalDevToolsProps): ReactNode {
+	const api = useContext(ModalApiContext);
+	const modals = useModalStore();
+	const [expanded, setExpanded] = useState(initialOpen);
+	const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+
+	useEffect(() => {
+		let nextId = 0;
+		return api.core.onAction((action) => {
+			const entry: TimelineEntry = {
+				id: nextId++,
+				time: new Date().toLocaleTimeString(),
+				action,
+			};
+			setTimeline((entries) => [entry, ...entries].slice(0, maxActions));
+		});
+	}, [api, maxActions]);
+
+	const registryIds = Object.keys(api.core.registry);
+	const modalStates = Object.values(modals).flatMap((modal) =>
+		modal ? [modal] : [],
+	);
+	const openCount = modalStates.filter((modal) => modal.isOpen).length;
+
+	return (
+		<aside aria-label="Modal DevTools" style={styles.panel}>
+			<button
+				aria-expanded={expanded}
+				onClick={() => setExpanded((value) => !value)}
+				style={{ font: "inherit" }}
+				type="button"
+			>
+				Modals ({openCount} open)
+			</button>
+
+			{expanded && (
+				<>
+					<h2 style={styles.heading}>Registry</h2>
+					<ul style={styles.list}>
+						{registryIds.map((id) => (
+							<li key={id}>
+								<code>{id}</code>
+								{api.core.registry[id]?.preload && " (lazy)"}
+								<button
+									onClick={() => api.openModal(id)}
+									style={styles.button}
+									type="button"
+								>
+									Open
+								</button>
+							</li>
+						))}
+					</ul>
+
+					<h2 style={styles.heading}>Modals</h2>
+					<ul style={styles.list}>
+						{modalStates.map((modal) => {
+							const { state, pending } = api.inspectModal(modal.modalId);
+							const flags = (["isOpen", "delayOpen", "keepMounted"] as const)
+								.filter((flag) => modal[flag])
+								.join(", ");
+							const unsettled = Object.entries(pending)
+								.filter(([, isPending]) => isPending)
+								.map(([name]) => name)
+								.join(", ");
+
+							return (
+								<li key={modal.modalId}>
+									<code>{modal.modalId}</code> {state}
+									<button
+										onClick={() => api.closeModal(modal.modalId)}
+										style={styles.button}
+										type="button"
+									>
+										Close
+									</button>
+									<button
+										onClick={() => api.removeModal(modal.modalId)}
+										style={styles.button}
+										type="button"
+									>
+										Remove
+									</button>
+									<div>flags: {flags || "none"}</div>
+									<div>pending: {unsettled || "none"}</div>
+									<pre style={styles.data}>{formatData(modal.data)}</pre>
+								</li>
+							);
+						})}
+					</ul>
+
+					<h2 style={styles.heading}>Actions</h2>
+					<ol reversed style={styles.list}>
+						{timeline.map(({ id, time, action }) => (
+							<li key={id}>
+								{time} {action.type.replace(ACTION_PREFIX, "")}{" "}
+								<code>{action.payload.modalId}</code>
+							</li>
+						))}
+					</ol>
+				</>
+			)}
+		</aside>
+	);
+}
@@ -0,0 +1,376 @@
+import {
+	type ComponentType,
+	type CSSProperties,
+	type InputHTMLAttributes,
+	type MouseEvent,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useId,
+	useRef,
+	useState,
+} from "react";
+import { shadcnUiAlertDialog, shadcnUiAlertDialogContent } from "./adapters";
+import type { ModalApi } from "./api";
+import { ModalDialogRendererContext } from "./context";
+import { createModal } from "./hoc";
+import { useModal, useModalStatus } from "./hooks";
+import type {
+	ModalAlertOptions,
+	ModalConfirmOptions,
+	ModalDialogKind,
+	ModalDialogRendererProps,
+	ModalPromptOptions,
+	RadixDialogContentProps,
+	ShadcnDialogProps,
+} from "./types";
+
+/** Data of the dialog modal: the options of whichever kind was opened */
+type DialogData = ModalPromptOptions & {
+	kind: ModalDialogKind;
+} & Record<string, unknown>;
+
+/** What a failed onConfirm is shown as */
+const formatError = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+const styles = {
+	dialog: {
+		position: "fixed",
+		top: "50%",
+		left: "50%",
+		transform: "translate(-50%, -50%)",
+		zIndex: 50,
+		minWidth: 320,
+		padding: 16,
+		border: "1px solid #d4d4d8",
+		borderRadius: 6,
+		background: "#fff",
+		color: "#18181b",
+	},
+	footer: {
+		display: "flex",
+		justifyContent: "flex-end",
+		gap: 8,
+		marginTop: 16,
+	},
+	destructive: { background: "#dc2626", color: "#fff" },
+} satisfies Record<string, CSSProperties>;
+
+/**
+ * Unstyled dialog used when the provider has no dialogRenderer
+ * It has no animation, so it reports each open and close as finished
+ */
+function PlainDialog({
+	kind,
+	title,
+	description,
+	confirmLabel,
+	cancelLabel,
+	destructive,
+	inputLabel,
+	placeholder,
+	value,
+	onValueChange,
+	loading,
+	error,
+	confirm,
+	cancel,
+}: ModalDialogRendererProps): ReactNode {
+	const { isOpen, onAnimationEnd } = useModal();
+	const id = useId();
+
+	const wasOpen = useRef(false);
+	useEffect(() => {
+		if (isOpen !== wasOpen.current) {
+			wasOpen.current = isOpen;
+			onAnimationEnd();
+		}
+	}, [isOpen, onAnimationEnd]);
+
+	if (!isOpen) {
+		return null;
+	}
+
+	return (
+		<div
+			aria-describedby={description ? `${id}-description` : undefined}
+			aria-labelledby={`${id}-title`}
+			aria-modal="true"
+			role="alertdialog"
+			style={styles.dialog}
+		>
+			<h2 id={`${id}-title`}>{title}</h2>
+			{description && <p id={`${id}-description`}>{description}</p>}
+			{kind === "prompt" && (
+				<label>
+					{inputLabel}
+					<input
+						disabled={loading}
+						onChange={(event) => onValueChange(event.target.value)}
+						placeholder={placeholder}
+						value={value}
+					/>
+				</label>
+			)}
+			{error !== undefined && <p role="alert">{formatError(error)}</p>}
+			<div style={styles.footer}>
+				{kind !== "alert" && (
+					<button disabled={loading} onClick={cancel} type="button">
+						{cancelLabel}
+					</button>
+				)}
+				<button
+					aria-busy={loading}
+					disabled={loading}
+					onClick={confirm}
+					style={destructive ? styles.destructive : undefined}
+					type="button"
+				>
+					{confirmLabel}
+				</button>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Body of the modal behind confirm(), alert() and prompt()
+ * Runs onConfirm as the modal's action and hands the rest to the renderer
+ */
+function Dialog({
+	kind,
+	title,
+	description,
+	confirmLabel = "OK",
+	cancelLabel = "Cancel",
+	destructive = false,
+	inputLabel,
+	placeholder,
+	defaultValue = "",
+	onConfirm,
+}: DialogData): ReactNode {
+	const modal = useModal();
+	const Renderer = useContext(ModalDialogRendererContext) ?? PlainDialog;
+	const [value, setValue] = useState(defaultValue);
+	const { isBusy, error } = useModalStatus();
+
+	// Close with true for confirm(), the text for prompt(), nothing for alert()
+	const result = kind === "prompt" ? value : kind === "confirm";
+	const confirm = () => {
+		modal.runAction(() => {
+			const pending = onConfirm?.(value);
+			return pending instanceof Promise ? pending.then(() => result) : result;
+		});
+	};
+
+	return (
+		<Renderer
+			cancel={() => {
+				if (!isBusy) {
+					modal.dismiss();
+				}
+			}}
+			cancelLabel={cancelLabel}
+			confirm={confirm}
+			confirmLabel={confirmLabel}
+			description={description}
+			destructive={destructive}
+			error={error}
+			inputLabel={inputLabel}
+			kind={kind}
+			loading={isBusy}
+			modal={modal}
+			onValueChange={setValue}
+			placeholder={placeholder}
+			title={title}
+			value={value}
+		/>
+	);
+}
+
+const DialogModal = createModal<DialogData>(Dialog, { instance: "multiple" });
+
+/** Open a dialog and wait for its result */
+const openDialog = (
+	api: ModalApi,
+	kind: ModalDialogKind,
+	options: ModalConfirmOptions | ModalAlertOptions | ModalPromptOptions,
+): Promise<unknown> =>
+	api
+		.openModal(DialogModal, { data: { ...options, kind } as DialogData })
+		.afterClosed();
+
+/**
+ * Ask the user to confirm
+ * @returns Promise resolving to true if confirmed, false if dismissed
+ */
+export const confirmDialog = (
+	api: ModalApi,
+	options: ModalConfirmOptions,
+): Promise<boolean> =>
+	openDialog(api, "confirm", options).then((result) => result === true);
+
+/**
+ * Tell the user something
+ * @returns Promise resolving once the dialog closed
+ */
+export const alertDialog = (
+	api: ModalApi,
+	options: ModalAlertOptions,
+): Promise<void> => openDialog(api, "alert", options).then(() => undefined);
+
+/**
+ * Ask the user for a line of text
+ * @returns Promise resolving to the entered text, or null if dismissed
+ */
+export const promptDialog = (
+	api: ModalApi,
+	options: ModalPromptOptions,
+): Promise<string | null> =>
+	openDialog(api, "prompt", options).then((result) =>
+		typeof result === "string" ? result : null,
+	);
+
+/**
+ * Parts of a shadcn AlertDialog, as generated by `shadcn add alert-dialog`
+ */
+export interface ShadcnAlertDialogParts {
+	AlertDialog: ComponentType<ShadcnDialogProps & { children?: ReactNode }>;
+	AlertDialogContent: ComponentType<
+		RadixDialogContentProps & { children?: ReactNode }
+	>;
+	AlertDialogHeader: ComponentType<{ children?: ReactNode }>;
+	AlertDialogFooter: ComponentType<{ children?: ReactNode }>;
+	AlertDialogTitle: ComponentType<{ children?: ReactNode }>;
+	AlertDialogDescription: ComponentType<{ children?: ReactNode }>;
+	AlertDialogAction: ComponentType<{
+		children?: ReactNode;
+		className?: string;
+		disabled?: boolean;
+		onClick?: (event: MouseEvent<HTMLButtonElement>) => void;
+	}>;
+	AlertDialogCancel: ComponentType<{
+		children?: ReactNode;
+		disabled?: boolean;
+		onClick?: (event: MouseEvent<HTMLButtonElement>) => void;
+	}>;
+	/** Input of prompt(), defaults to a plain input */
+	Input?: ComponentType<InputHTMLAttributes<HTMLInputElement>>;
+}
+
+/**
+ * Options for createShadcnDialogRenderer()
+ */
+export interface ShadcnDialogRendererOptions {
+	/** Class of a destructive confirm button */
+	destructiveClassName?: string;
+}
+
+/**
+ * Build a dialog renderer from your shadcn AlertDialog parts, wired up with
+ * the shadcnUiAlertDialog and shadcnUiAlertDialogContent adapters
+ *
+ * @example
+ * ```tsx
+ * import * as alertDialog from "@/components/ui/alert-dialog";
+ * import { Input } from "@/components/ui/input";
+ *
+ * const dialogRenderer = createShadcnDialogRenderer({ ...alertDialog, Input });
+ *
+ * <ModalProvider dialogRenderer={dialogRenderer}>
+ *   <App />
+ * </ModalProvider>
+ * ```
+ */
+export const createShadcnDialogRenderer = (
+	{
+		AlertDialog,
+		AlertDialogContent,
+		AlertDialogHeader,
+		AlertDialogFooter,
+		AlertDialogTitle,
+		AlertDialogDescription,
+		AlertDialogAction,
+		AlertDialogCancel,
+		Input,
+	}: ShadcnAlertDialogParts,
+	{
+		destructiveClassName = "bg-destructive text-white hover:bg-destructive/90",
+	}: ShadcnDialogRendererOptions = {},
+): ComponentType<ModalDialogRendererProps> => {
+	function ShadcnDialog({
+		modal,
+		kind,
+		title,
+		description,
+		confirmLabel,
+		cancelLabel,
+		destructive,
+		inputLabel,
+		placeholder,
+		value,
+		onValueChange,
+		loading,
+		error,
+		confirm,
+		cancel,
+	}: ModalDialogRendererProps): ReactNode {
+		const inputId = useId();
+		const TextInput = Input ?? "input";
+		// AlertDialog's buttons close it on their own, the modal decides instead
+		const onAction =
+			(action: () => void) => (event: MouseEvent<HTMLButtonElement>) => {
+				event.preventDefault();
+				action();
+			};
+
+		return (
+			<AlertDialog {...shadcnUiAlertDialog(modal, { disableClose: loading })}>
+				<AlertDialogContent
+					{...shadcnUiAlertDialogContent(modal, { disableClose: loading })}
+				>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{title}</AlertDialogTitle>
+						{description && (
+							<AlertDialogDescription>{description}</AlertDialogDescription>
+						)}
+					</AlertDialogHeader>
+					{kind === "prompt" && (
+						<div>
+							{inputLabel && <label htmlFor={inputId}>{inputLabel}</label>}
+							<TextInput
+								disabled={loading}
+								id={inputId}
+								onChange={(event) => onValueChange(event.target.value)}
+								placeholder={placeholder}
+								value={value}
+							/>
+						</div>
+					)}
+					{error !== undefined && (
+						<p className="text-destructive text-sm" role="alert">
+							{formatError(error)}
+						</p>
+					)}
+					<AlertDialogFooter>
+						{kind !== "alert" && (
+							<AlertDialogCancel disabled={loading} onClick={onAction(cancel)}>
+								{cancelLabel}
+							</AlertDialogCancel>
+						)}
+						<AlertDialogAction
+							className={destructive ? destructiveClassName : undefined}
+							disabled={loading}
+							onClick={onAction(confirm)}
+						>
+							{confirmLabel}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		);
+	}
+
+	return ShadcnDialog;
+};
@@ -0,0 +1,186 @@
+import type { ModalApi } from "./api";
+import { getModalId, getModalStack } from "./core";
+import type { ModalHistory, ModalHistoryOptions } from "./types";
+
+/** Query param holding the modal name when none is configured */
+const DEFAULT_PARAM = "modal";
+
+/** A synced modal currently reflected in the URL */
+interface ReflectedModal {
+	modalId: string;
+	name: string;
+	/** Whether opening it pushed a history entry (deep-linked modals did not) */
+	pushed: boolean;
+}
+
+const toSearch = (params: URLSearchParams): string => {
+	const search = params.toString();
+	return search ? `?${search}` : "";
+};
+
+/**
+ * History backed by window.history and popstate
+ */
+export const createBrowserHistory = (): ModalHistory => {
+	const toUrl = (search: string) =>
+		`${window.location.pathname}${search}${window.location.hash}`;
+
+	return {
+		getSearch: () => window.location.search,
+		push: (search) => window.history.pushState(null, "", toUrl(search)),
+		replace: (search) => window.history.replaceState(null, "", toUrl(search)),
+		go: (delta) => window.history.go(delta),
+		listen: (listener) => {
+			window.addEventListener("popstate", listener);
+			return () => window.removeEventListener("popstate", listener);
+		},
+	};
+};
+
+/**
+ * Keep the URL in sync with the open modals of an API
+ * Opening a synced modal pushes an entry, back closes the top modal, and a
+ * modal named in the URL at bind time is opened with its params as data.
+ *
+ * @returns Function that stops syncing
+ */
+export const bindModalHistory = (
+	api: ModalApi,
+	options: ModalHistoryOptions,
+): (() => void) => {
+	const {
+		modals,
+		history = createBrowserHistory(),
+		param = DEFAULT_PARAM,
+	} = options;
+	const { store } = api.core;
+
+	// URL name of each synced registry ID
+	const names = new Map<string, string>();
+	const ownedKeys = new Set([param]);
+	for (const [name, entry] of Object.entries(modals)) {
+		names.set(getModalId(entry.modal), name);
+		for (const key of entry.params ?? []) {
+			ownedKeys.add(key);
+		}
+	}
+
+	const readParams = () => new URLSearchParams(history.getSearch());
+	const getUrlName = () => readParams().get(param) ?? undefined;
+
+	/** Current query string without anything the binding writes */
+	const getBaseParams = (): URLSearchParams => {
+		const params = readParams();
+		for (const key of ownedKeys) {
+			params.delete(key);
+		}
+		return params;
+	};
+
+	const getSearchFor = (
+		name: string,
+		data: Record<string, unknown> | undefined,
+	): string => {
+		const params = getBaseParams();
+		params.set(param, name);
+		for (const key of modals[name]?.params ?? []) {
+			const value = data?.[key];
+			if (value !== undefined && value !== null) {
+				params.set(key, String(value));
+			}
+		}
+		return toSearch(params);
+	};
+
+	// Synced modals reflected in the URL, ordered from bottom to top
+	const reflected: ReflectedModal[] = [];
+
+	const onStoreChange = (): void => {
+		const state = store.getSnapshot();
+		const stack = getModalStack(state).flatMap((entry) => {
+			const registryId = state[entry.modalId]?.instanceOf ?? entry.modalId;
+			const name = names.get(registryId);
+			return name === undefined ? [] : [{ ...entry, name }];
+		});
+		const openIds = new Set(stack.map((entry) => entry.modalId));
+
+		// Forget modals that closed, top first
+		let closedName: string | undefined;
+		let closedEntries = 0;
+		let top = reflected.at(-1);
+		while (top && !openIds.has(top.modalId)) {
+			reflected.pop();
+			closedName ??= top.name;
+			if (top.pushed) {
+				closedEntries++;
+			}
+			top = reflected.at(-1);
+		}
+
+		// Closed in the app rather than by navigating back, so leave its entry
+		if (closedName !== undefined && getUrlName() === closedName) {
+			if (closedEntries > 0) {
+				history.go(-closedEntries);
+			} else {
+				history.replace(toSearch(getBaseParams()));
+			}
+		}
+
+		// Give newly opened modals an entry, unless the URL already names them
+		for (const entry of stack) {
+			if (reflected.some((modal) => modal.modalId === entry.modalId)) {
+				continue;
+			}
+			const pushed = getUrlName() !== entry.name;
+			if (pushed) {
+				history.push(getSearchFor(entry.name, entry.data));
+			}
+			reflected.push({ modalId: entry.modalId, name: entry.name, pushed });
+		}
+	};
+
+	const onNavigate = (): void => {
+		const name = getUrlName();
+
+		// Close every modal above the entry navigated to, top first
+		let keep = reflected.length - 1;
+		while (keep >= 0 && reflected[keep]?.name !== name) {
+			keep--;
+		}
+		for (const modal of reflected.slice(keep + 1).reverse()) {
+			api.closeModal(modal.modalId);
+		}
+
+		// Drop a modal name left behind by an entry whose modal is gone
+		if (name !== undefined && keep === -1) {
+			history.replace(toSearch(getBaseParams()));
+		}
+	};
+
+	const unsubscribe = store.subscribe(onStoreChange);
+	const unlisten = history.listen(onNavigate);
+	onStoreChange();
+
+	// Open the modal the page was linked to
+	const params = readParams();
+	const linkedName = params.get(param);
+	const linked =
+		linkedName !== null && Object.hasOwn(modals, linkedName)
+			? modals[linkedName]
+			: undefined;
+	if (linked && !reflected.some((modal) => modal.name === linkedName)) {
+		const data: Record<string, string> = {};
+		for (const key of linked.params ?? []) {
+			const value = params.get(key);
+			if (value !== null) {
+				data[key] = value;
+			}
+		}
+		api.openModal(linked.modal, { data });
+	}
+
+	return () => {
+		unsubscribe();
+		unlisten();
+	};
+};
@@ -1,9 +1,13 @@
 import { type ComponentType, type Ref, useContext, useEffect } from "react";
-import { setFlags } from "./api";
-import { ModalContext, ModalIdContext } from "./context";
-import { ALREADY_MOUNTED } from "./core";
-import { useModal } from "./hooks";
-import type { ModalHocProps } from "./types";
+import { ModalApiContext, ModalIdContext } from "./context";
+import { setModalInstanceMode, setModalPersistable } from "./core";
+import { useModal, useModalStore } from "./hooks";
+import type {
+	CreateModalOptions,
+	ModalHandler,
+	ModalHocProps,
+	ModalToken,
+} from "./types";
 
 /** Props passed directly to the HOC wrapper */
 type HocOwnProps = ModalHocProps;
@@ -39,6 +43,9 @@ export interface RefProp<T> {
  *
  * // Usage
  * open(MyModal, { data: { title: 'Edit Item', onSave: handleSave } });
+ *
+ * // Every open() shows a new instance with its own ModalRef
+ * const Toast = createModal(ToastContent, { instance: "multiple" });
  * ```
  */
 export const createModal = <
@@ -46,6 +53,7 @@ export const createModal = <
 	TRef = unknown,
 >(
 	Comp: ComponentType<TProps & RefProp<TRef>>,
+	options?: CreateModalOptions,
 ): ComponentType<TProps & HocOwnProps & RefProp<TRef>> => {
 	function WrappedComponent(allProps: TProps & HocOwnProps & RefProp<TRef>) {
 		// Extract HOC props
@@ -54,7 +62,8 @@ export const createModal = <
 		const componentProps = restProps as TProps;
 
 		const { data, open: openModal } = useModal(modalId);
-		const modals = useContext(ModalContext);
+		const modals = useModalStore();
+		const { core, setFlags } = useContext(ModalApiContext);
 
 		// Only mount if this modal exists in the store
 		const shouldMount = modalId in modals;
@@ -65,19 +74,19 @@ export const createModal = <
 				openModal();
 			}
 
-			ALREADY_MOUNTED[modalId] = true;
+			core.alreadyMounted[modalId] = true;
 
 			return () => {
-				delete ALREADY_MOUNTED[modalId];
+				delete core.alreadyMounted[modalId];
 			};
-		}, [modalId, openModal, defaultOpen]);
+		}, [core, modalId, openModal, defaultOpen]);
 
 		// Handle keepMounted flag
 		useEffect(() => {
 			if (keepMounted) {
 				setFlags(modalId, { keepMounted: true });
 			}
-		}, [modalId, keepMounted]);
+		}, [setFlags, modalId, keepMounted]);
 
 		// Handle delayed visibility (for modals shown before mount)
 		const delayOpen = modals[modalId]?.delayOpen;
@@ -88,7 +97,7 @@ export const createModal = <
 					isOpen: true,
 				});
 			}
-		}, [delayOpen, modalId]);
+		}, [setFlags, delayOpen, modalId]);
 
 		if (!shouldMount) {
 			return null;
@@ -113,5 +122,59 @@ export const createModal = <
 		Comp.displayName || Comp.name || "Component"
 	})`;
 
+	if (options?.instance) {
+		setModalInstanceMode(WrappedComponent, options.instance);
+	}
+	if (options?.persistable) {
+		setModalPersistable(WrappedComponent, true);
+	}
+
 	return WrappedComponent;
 };
+
+/**
+ * Builder for typed modals. Fix the data and result types once, then pass the
+ * component: the returned token makes open() infer both types and exposes a
+ * typed useModal() whose close() only accepts the result type.
+ *
+ * @example
+ * ```tsx
+ * // Annotate the return type, since the body reads the token it defines
+ * const ConfirmModal = defineModal<{ message: string }, boolean>()(
+ *   ({ message }): ReactNode => {
+ *     const modal = ConfirmModal.useModal();
+ *
+ *     return (
+ *       <Dialog {...shadcnUiDialog(modal)}>
+ *         <DialogContent {...shadcnUiDialogContent(modal)}>
+ *           <p>{message}</p>
+ *           <Button onClick={() => modal.close(true)}>Confirm</Button>
+ *         </DialogContent>
+ *       </Dialog>
+ *     );
+ *   },
+ * );
+ *
+ * // data is checked against { message: string }, confirmed is boolean | undefined
+ * const confirmed = await ModalManager.open(ConfirmModal, {
+ *   data: { message: "Delete?" },
+ * }).afterClosed();
+ * ```
+ */
+export const defineModal =
+	<
+		TData extends Record<string, unknown> = Record<string, unknown>,
+		TResult = unknown,
+	>() =>
+	<TRef = unknown>(
+		Comp: ComponentType<TData & RefProp<TRef>>,
+		options?: CreateModalOptions,
+	): ModalToken<TData, TResult, TRef> => {
+		function useTypedModal(): ModalHandler<TData, TResult> {
+			return useModal() as unknown as ModalHandler<TData, TResult>;
+		}
+
+		return Object.assign(createModal<TData, TRef>(Comp, options), {
+			useModal: useTypedModal,
+		});
+	};
@@ -1,22 +1,46 @@
-import { useCallback, useContext, useEffect, useMemo, useRef } from "react";
 import {
-	closeModal,
-	markClosed,
-	notifyOpened,
-	openModal,
-	removeModal,
-} from "./api";
-import { ModalContext, ModalIdContext } from "./context";
-import {
-	getModalId,
-	hideModalCallbacks,
-	MODAL_REGISTRY,
-	modalCallbacks,
-	register,
-} from "./core";
-import type { ModalHandler, ModalHocProps, ModalProps } from "./types";
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useSyncExternalStore,
+} from "react";
+import { ModalApiContext, ModalIdContext, ModalStoreContext } from "./context";
+import { getModalId, getModalStack } from "./core";
+import type {
+	ModalChildResultListener,
+	ModalCloseGuard,
+	ModalDismissReason,
+	ModalHandler,
+	ModalHocProps,
+	ModalProps,
+	ModalReplaceConfig,
+	ModalStackEntry,
+	ModalStatus,
+	ModalSteps,
+	ModalStepsOptions,
+	ModalStore,
+	ModalToken,
+	ReplaceModal,
+} from "./types";
 import { type InternalModalConfig, MODAL_CONFIG_KEY } from "./types";
 
+/**
+ * Hook to read the modal store of the nearest ModalProvider.
+ * Subscribes through useSyncExternalStore so reads stay consistent under
+ * concurrent rendering, and also works above or without a provider.
+ * @internal
+ */
+export function useModalStore(): ModalStore {
+	const store = useContext(ModalStoreContext);
+	return useSyncExternalStore(
+		store.subscribe,
+		store.getSnapshot,
+		store.getServerSnapshot,
+	);
+}
+
 /**
  * Hook to control a modal from within the modal component or from anywhere.
  * Returns an enhanced handler with state and control methods.
@@ -49,6 +73,11 @@ export function useModal(
 	data?: Record<string, unknown>,
 ): ModalHandler;
 
+export function useModal<TData extends Record<string, unknown>, TResult>(
+	modal: ModalToken<TData, TResult>,
+	data?: Partial<TData>,
+): ModalHandler<TData, TResult>;
+
 export function useModal<
 	TProps extends Record<string, unknown>,
 	P extends Partial<ModalProps<React.ComponentType<TProps & ModalHocProps>>>,
@@ -62,8 +91,10 @@ export function useModal(
 	modal?: React.ComponentType<any> | string,
 	initialData?: Record<string, unknown>,
 ): ModalHandler {
-	const modals = useContext(ModalContext);
+	const modals = useModalStore();
 	const contextModalId = useContext(ModalIdContext);
+	const api = useContext(ModalApiContext);
+	const { core } = api;
 
 	// Determine modal ID - from argument or context
 	const modalId = modal ? getModalId(modal) : contextModalId;
@@ -81,16 +112,17 @@ export function useModal(
 
 	// Register component if passed and not already registered
 	useEffect(() => {
-		if (isComponentRef && !MODAL_REGISTRY[modalId]) {
-			register(
+		if (isComponentRef && !core.registry[modalId]) {
+			core.register(
 				modalId,
 				modal as React.ComponentType<Record<string, unknown>>,
 				initialData,
 			);
 		}
-	}, [isComponentRef, modalId, modal, initialData]);
+	}, [core, isComponentRef, modalId, modal, initialData]);
 
 	const modalInfo = modals[modalId];
+	const isTopmost = getModalStack(modals).at(-1)?.modalId === modalId;
 
 	// Use refs to avoid stale closures in animation handlers
 	const modalInfoRef = useRef(modalInfo);
@@ -101,50 +133,76 @@ export function useModal(
 	// Memoized control methods
 	const openCallback = useCallback(
 		(data?: Record<string, unknown>) => {
-			const ref = openModal(modalId, { data });
+			// Modals opened from inside another modal belong to it
+			const parent =
+				contextModalId && contextModalId !== modalId
+					? contextModalId
+					: undefined;
+			const ref = api.openModal(modalId, { data, parent });
 			return ref.afterClosed();
 		},
-		[modalId],
+		[api, contextModalId, modalId],
 	);
 
+	// Both go through the modal's close guards
 	const closeCallback = useCallback(
 		(result?: unknown) => {
-			modalCallbacks[modalId]?.resolve(result);
-			delete modalCallbacks[modalId];
-			closeModal(modalId);
+			api.requestClose(modalId, result, "result");
 		},
-		[modalId],
+		[api, modalId],
 	);
 
-	const dismissCallback = useCallback(() => {
-		modalCallbacks[modalId]?.resolve(undefined);
-		delete modalCallbacks[modalId];
-		closeModal(modalId);
-	}, [modalId]);
+	const dismissCallback = useCallback(
+		(reason?: ModalDismissReason | React.SyntheticEvent) => {
+			api.requestClose(
+				modalId,
+				undefined,
+				typeof reason === "string" ? reason : "dismiss",
+			);
+		},
+		[api, modalId],
+	);
+
+	const removeCallback = useCallback(
+		() => api.removeModal(modalId),
+		[api, modalId],
+	);
 
-	const removeCallback = useCallback(() => removeModal(modalId), [modalId]);
+	const replaceCallback = useCallback(
+		// biome-ignore lint/suspicious/noExplicitAny: component props vary
+		(next: React.ComponentType<any> | string, config?: ModalReplaceConfig) =>
+			api.replaceModal(modalId, next, config),
+		[api, modalId],
+	) as ReplaceModal;
+
+	const runActionCallback = useCallback(
+		(action: () => unknown) => api.runAction(modalId, action),
+		[api, modalId],
+	);
 
 	// Animation completion handler
 	const onAnimationEnd = useCallback(() => {
 		const current = modalInfoRef.current;
 
-		if (current?.isOpen) {
+		// Read the live state: adapters without an exit animation call this in
+		// the same tick as dismiss(), before the ref sees the modal closing
+		if (api.inspectModal(modalId).state === "open") {
 			// Modal is opening - notify afterOpened promise
-			notifyOpened(modalId);
+			api.notifyOpened(modalId);
 		} else {
 			// Modal is closing - mark as fully closed
-			markClosed(modalId);
+			api.markClosed(modalId);
 
 			// Resolve close promise when closing animation completes
-			hideModalCallbacks[modalId]?.resolve(undefined);
-			delete hideModalCallbacks[modalId];
+			core.hideModalCallbacks[modalId]?.resolve(undefined);
+			delete core.hideModalCallbacks[modalId];
 
 			// Remove if not keepMounted (use ref for latest value)
 			if (!current?.keepMounted) {
-				removeModal(modalId);
+				api.discardModal(modalId, "remove");
 			}
 		}
-	}, [modalId]);
+	}, [api, core, modalId]);
 
 	return useMemo(
 		() => ({
@@ -153,11 +211,16 @@ export function useModal(
 			data: modalInfo?.data,
 			isOpen: !!modalInfo?.isOpen,
 			keepMounted: !!modalInfo?.keepMounted,
+			depth: modalInfo?.depth ?? 0,
+			isTopmost,
+			isBusy: !!modalInfo?.isBusy,
 			// Controls
 			open: openCallback,
 			close: closeCallback,
 			dismiss: dismissCallback,
 			remove: removeCallback,
+			runAction: runActionCallback,
+			replace: replaceCallback,
 			// Animation handler
 			onAnimationEnd,
 		}),
@@ -166,15 +229,123 @@ export function useModal(
 			modalInfo?.data,
 			modalInfo?.isOpen,
 			modalInfo?.keepMounted,
+			modalInfo?.depth,
+			isTopmost,
+			modalInfo?.isBusy,
 			openCallback,
 			closeCallback,
 			dismissCallback,
 			removeCallback,
+			runActionCallback,
+			replaceCallback,
 			onAnimationEnd,
 		],
 	);
 }
 
+/**
+ * Hook to register a close guard for the current modal.
+ * The guard is consulted before every close (escape, outside click, close(),
+ * closeAll()) and can veto it by returning false, also asynchronously.
+ * Must be used inside a modal component
+ *
+ * @example
+ * ```tsx
+ * const EditModal = createModal(() => {
+ *   const [dirty, setDirty] = useState(false);
+ *
+ *   useModalCloseGuard(async () => {
+ *     if (!dirty) {
+ *       return true;
+ *     }
+ *     return await ModalManager.open<boolean>(DiscardChangesModal).afterClosed() === true;
+ *   });
+ *
+ *   // ...
+ * });
+ * ```
+ */
+export function useModalCloseGuard(guard: ModalCloseGuard): void {
+	const modalId = useContext(ModalIdContext);
+	const api = useContext(ModalApiContext);
+
+	if (!modalId) {
+		throw new Error(
+			"[ModalManager] useModalCloseGuard must be used inside a modal component.",
+		);
+	}
+
+	// Keep the latest guard without re-registering on every render
+	const guardRef = useRef(guard);
+	useEffect(() => {
+		guardRef.current = guard;
+	}, [guard]);
+
+	useEffect(
+		() => api.addCloseGuard(modalId, (context) => guardRef.current(context)),
+		[api, modalId],
+	);
+}
+
+/**
+ * Hook to receive the results child modals of the current modal close with
+ * Must be used inside a modal component
+ *
+ * @example
+ * ```tsx
+ * const PickUserModal = createModal(() => {
+ *   const [users, setUsers] = useState<User[]>([]);
+ *   const addUser = useModal(AddUserModal);
+ *
+ *   useModalChildResult(({ result }) => {
+ *     setUsers((current) => [...current, result as User]);
+ *   });
+ *
+ *   return <Button onClick={() => addUser.open()}>Add user</Button>;
+ * });
+ * ```
+ */
+export function useModalChildResult(listener: ModalChildResultListener): void {
+	const modalId = useContext(ModalIdContext);
+	const api = useContext(ModalApiContext);
+
+	if (!modalId) {
+		throw new Error(
+			"[ModalManager] useModalChildResult must be used inside a modal component.",
+		);
+	}
+
+	// Keep the latest listener without re-registering on every render
+	const listenerRef = useRef(listener);
+	useEffect(() => {
+		listenerRef.current = listener;
+	}, [listener]);
+
+	useEffect(
+		() =>
+			api.addChildResultListener(modalId, (child) =>
+				listenerRef.current(child),
+			),
+		[api, modalId],
+	);
+}
+
+/**
+ * Hook to get the open modals ordered from bottom to top
+ *
+ * @example
+ * ```tsx
+ * const stack = useModalStack();
+ * const top = stack.at(-1);
+ *
+ * return <Backdrop visible={stack.length > 0} />;
+ * ```
+ */
+export function useModalStack(): ModalStackEntry[] {
+	const modals = useModalStore();
+	return useMemo(() => getModalStack(modals), [modals]);
+}
+
 /**
  * Hook to get typed data passed to a modal
  * Must be used inside a modal component (within ModalIdContext)
@@ -206,7 +377,7 @@ export function useModal(
 export function useModalData<TData = Record<string, unknown>>():
 	| TData
 	| undefined {
-	const modals = useContext(ModalContext);
+	const modals = useModalStore();
 	const modalId = useContext(ModalIdContext);
 
 	if (!modalId) {
@@ -227,12 +398,216 @@ export function useModalData<TData = Record<string, unknown>>():
 	return userData as TData;
 }
 
+/**
+ * Hook to get the status of the actions a modal runs with runAction()
+ * Must be used inside a modal component
+ *
+ * @example
+ * ```tsx
+ * const SaveModal = createModal(() => {
+ *   const modal = useModal();
+ *   const { isBusy, error } = useModalStatus();
+ *
+ *   return (
+ *     <Dialog {...shadcnUiDialog(modal)}>
+ *       <DialogContent {...shadcnUiDialogContent(modal)}>
+ *         {error && <p>Saving failed, try again.</p>}
+ *         <Button disabled={isBusy} onClick={() => modal.runAction(save)}>
+ *           Save
+ *         </Button>
+ *       </DialogContent>
+ *     </Dialog>
+ *   );
+ * });
+ * ```
+ */
+export function useModalStatus(): ModalStatus {
+	const modals = useModalStore();
+	const modalId = useContext(ModalIdContext);
+
+	if (!modalId) {
+		throw new Error(
+			"[ModalManager] useModalStatus must be used inside a modal component.",
+		);
+	}
+
+	const modalInfo = modals[modalId];
+	const isBusy = !!modalInfo?.isBusy;
+	const error = modalInfo?.actionError;
+	return useMemo(() => ({ isBusy, error }), [isBusy, error]);
+}
+
+/**
+ * Hook to split a modal into steps (wizards, onboarding, checkout)
+ * The step and the data collected by the steps are kept in the modal store,
+ * so they survive data updates and reopening a keepMounted modal. Finishing
+ * the last step closes the modal with the collected data as its result.
+ * Must be used inside a modal component
+ *
+ * @example
+ * ```tsx
+ * const CheckoutModal = createModal(() => {
+ *   const modal = useModal();
+ *   const steps = useModalSteps<CheckoutData>({
+ *     count: 3,
+ *     validate: (step, data) => step !== 0 || !!data.address,
+ *   });
+ *
+ *   return (
+ *     <Dialog {...shadcnUiDialog(modal)}>
+ *       <DialogContent {...shadcnUiDialogContent(modal)}>
+ *         {steps.step === 0 && <AddressForm onChange={steps.setData} />}
+ *         <Button disabled={steps.isFirst} onClick={steps.back}>Back</Button>
+ *         <Button onClick={() => steps.next()}>
+ *           {steps.isLast ? "Pay" : "Next"}
+ *         </Button>
+ *       </DialogContent>
+ *     </Dialog>
+ *   );
+ * });
+ * ```
+ */
+export function useModalSteps<TData = Record<string, unknown>>(
+	options: ModalStepsOptions<TData>,
+): ModalSteps<TData> {
+	const modals = useModalStore();
+	const store = useContext(ModalStoreContext);
+	const modalId = useContext(ModalIdContext);
+	const api = useContext(ModalApiContext);
+
+	if (!modalId) {
+		throw new Error(
+			"[ModalManager] useModalSteps must be used inside a modal component.",
+		);
+	}
+
+	const { count, validate } = options;
+
+	// Keep the latest validator without recreating the navigation callbacks
+	const validateRef = useRef(validate);
+	useEffect(() => {
+		validateRef.current = validate;
+	}, [validate]);
+
+	// Navigation reads the store itself, as it may run after an await
+	const read = useCallback(() => {
+		const modalInfo = store.getSnapshot()[modalId];
+		return {
+			step: modalInfo?.step ?? 0,
+			data: (modalInfo?.stepData ?? {}) as Partial<TData>,
+		};
+	}, [store, modalId]);
+
+	const setData = useCallback(
+		(data: Partial<TData>) => {
+			api.setFlags(modalId, { stepData: { ...read().data, ...data } });
+		},
+		[api, modalId, read],
+	);
+
+	/** Validate the current step, synchronously if the validator is */
+	const whenValid = useCallback(
+		(onValid: () => void): Promise<boolean> => {
+			const { step, data } = read();
+			let valid: boolean | Promise<boolean>;
+			try {
+				valid = validateRef.current?.(step, data) ?? true;
+			} catch {
+				valid = false;
+			}
+
+			if (typeof valid === "boolean") {
+				if (valid) {
+					onValid();
+				}
+				return Promise.resolve(valid);
+			}
+			return valid.then(
+				(ok) => {
+					if (ok) {
+						onValid();
+					}
+					return ok;
+				},
+				() => false,
+			);
+		},
+		[read],
+	);
+
+	const next = useCallback(
+		(data?: Partial<TData>) => {
+			if (data) {
+				setData(data);
+			}
+			const opened = api.core.modalCallbacks[modalId];
+			return whenValid(() => {
+				// The modal may have been dismissed while an async validator ran
+				if (
+					api.inspectModal(modalId).state !== "open" ||
+					api.core.modalCallbacks[modalId] !== opened
+				) {
+					return;
+				}
+				const current = read();
+				if (current.step < count - 1) {
+					api.setFlags(modalId, { step: current.step + 1 });
+				} else {
+					api.requestClose(modalId, current.data, "result");
+				}
+			});
+		},
+		[api, modalId, count, read, setData, whenValid],
+	);
+
+	const back = useCallback(() => {
+		const { step } = read();
+		if (step > 0) {
+			api.setFlags(modalId, { step: step - 1 });
+		}
+	}, [api, modalId, read]);
+
+	const goTo = useCallback(
+		(target: number) => {
+			const { step } = read();
+			if (!Number.isInteger(target) || target < 0 || target >= count) {
+				return Promise.resolve(false);
+			}
+			if (target <= step) {
+				api.setFlags(modalId, { step: target });
+				return Promise.resolve(true);
+			}
+			return whenValid(() => api.setFlags(modalId, { step: target }));
+		},
+		[api, modalId, count, read, whenValid],
+	);
+
+	const modalInfo = modals[modalId];
+	const step = modalInfo?.step ?? 0;
+	const stepData = modalInfo?.stepData;
+
+	return useMemo(
+		() => ({
+			step,
+			count,
+			isFirst: step === 0,
+			isLast: step === count - 1,
+			data: (stepData ?? {}) as Partial<TData>,
+			setData,
+			next,
+			back,
+			goTo,
+		}),
+		[step, count, stepData, setData, next, back, goTo],
+	);
+}
+
 /**
  * Hook to get the modal config options (disableClose, keepMounted, etc.)
  * Must be used inside a modal component
  */
 export function useModalConfig(): InternalModalConfig {
-	const modals = useContext(ModalContext);
+	const modals = useModalStore();
 	const modalId = useContext(ModalIdContext);
 
 	if (!modalId) {
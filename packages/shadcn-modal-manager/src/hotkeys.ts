@@ -0,0 +1,158 @@
+import type { ComponentType } from "react";
+import type { ModalApi } from "./api";
+import { getModalId } from "./core";
+import type { ModalHotkey, ModalHotkeyConfig } from "./types";
+
+/** A hotkey split into its key and modifiers */
+interface ParsedHotkey {
+	key: string;
+	ctrl: boolean;
+	meta: boolean;
+	alt: boolean;
+	shift: boolean;
+}
+
+/** Names accepted for keys whose KeyboardEvent.key reads differently */
+const KEY_ALIASES: Record<string, string> = {
+	esc: "escape",
+	space: " ",
+	up: "arrowup",
+	down: "arrowdown",
+	left: "arrowleft",
+	right: "arrowright",
+};
+
+/** Whether "mod" means Cmd rather than Ctrl */
+const isApplePlatform = (): boolean =>
+	typeof navigator !== "undefined" &&
+	/Mac|iPhone|iPad|iPod/.test(navigator.platform);
+
+const parseHotkey = (keys: string): ParsedHotkey => {
+	// Split on "+" unless it is the last character, so "mod++" binds "+"
+	const parts = keys.toLowerCase().split(/\+(?=.)/);
+	const key = parts.pop() ?? "";
+	const mod = parts.includes("mod");
+	const apple = isApplePlatform();
+	return {
+		key: KEY_ALIASES[key] ?? key,
+		ctrl: parts.includes("ctrl") || (mod && !apple),
+		meta: parts.includes("meta") || parts.includes("cmd") || (mod && apple),
+		alt: parts.includes("alt") || parts.includes("option"),
+		shift: parts.includes("shift"),
+	};
+};
+
+/** Letter or digit of a physical key, which Alt doesn't change like it does key */
+const getCodeKey = (code: string): string | undefined =>
+	/^(?:Key|Digit)(.)$/.exec(code)?.[1]?.toLowerCase();
+
+const matchesHotkey = (event: KeyboardEvent, keys: string): boolean => {
+	// Autofill and some IMEs fire keydown events without a key
+	if (typeof event.key !== "string") {
+		return false;
+	}
+	const hotkey = parseHotkey(keys);
+	const key = event.key.toLowerCase();
+	if (key !== hotkey.key && getCodeKey(event.code) !== hotkey.key) {
+		return false;
+	}
+
+	// Symbols such as "?" already carry the Shift needed to type them
+	const shiftTyped = hotkey.key.length === 1 && !/[a-z0-9]/.test(hotkey.key);
+	return (
+		event.ctrlKey === hotkey.ctrl &&
+		event.metaKey === hotkey.meta &&
+		event.altKey === hotkey.alt &&
+		(event.shiftKey === hotkey.shift || (shiftTyped && !hotkey.shift))
+	);
+};
+
+/** Whether the user is typing into the element the event comes from */
+const isTypingTarget = (target: EventTarget | null): boolean =>
+	target instanceof HTMLElement &&
+	(target.isContentEditable ||
+		target.tagName === "INPUT" ||
+		target.tagName === "TEXTAREA" ||
+		target.tagName === "SELECT");
+
+const isInScope = (
+	api: ModalApi,
+	event: KeyboardEvent,
+	{ scope = "always", allowInInputs = false }: ModalHotkeyConfig,
+): boolean => {
+	if (!allowInInputs && isTypingTarget(event.target)) {
+		return false;
+	}
+	if (scope === "always") {
+		return true;
+	}
+	if (scope === "noModal") {
+		return !api.hasOpenModals();
+	}
+	return api.getTopModal() === getModalId(scope.topmost);
+};
+
+/**
+ * Bind a keyboard shortcut opening a modal
+ * Registers the modal if needed and stores the hotkey on its registry entry,
+ * where ModalProvider picks it up. Unregistering the modal drops the hotkey.
+ *
+ * @returns Function that removes the hotkey
+ */
+export const bindModalHotkey = <TData = Record<string, unknown>>(
+	api: ModalApi,
+	keys: string,
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any> | string,
+	config: ModalHotkeyConfig<TData> = {},
+): (() => void) => {
+	const modalId = getModalId(modal);
+	if (typeof modal !== "string" && !api.core.registry[modalId]) {
+		api.core.register(modalId, modal);
+	}
+
+	const entry = api.core.registry[modalId];
+	if (!entry) {
+		throw new Error(
+			`[ModalManager] Cannot bind "${keys}" to modal "${modalId}", it is not registered.`,
+		);
+	}
+
+	const hotkey: ModalHotkey = { keys, config: config as ModalHotkeyConfig };
+	entry.hotkey = hotkey;
+
+	return () => {
+		const current = api.core.registry[modalId];
+		if (current?.hotkey === hotkey) {
+			delete current.hotkey;
+		}
+	};
+};
+
+/**
+ * Open registered modals when their hotkey is pressed
+ * @returns Function that stops listening
+ */
+export const listenForModalHotkeys = (api: ModalApi): (() => void) => {
+	const onKeyDown = (event: KeyboardEvent) => {
+		if (event.defaultPrevented || event.repeat || event.isComposing) {
+			return;
+		}
+
+		for (const [modalId, { hotkey }] of Object.entries(api.core.registry)) {
+			if (
+				hotkey &&
+				matchesHotkey(event, hotkey.keys) &&
+				isInScope(api, event, hotkey.config)
+			) {
+				event.preventDefault();
+				const { scope, allowInInputs, ...config } = hotkey.config;
+				api.openModal(modalId, config);
+				return;
+			}
+		}
+	};
+
+	document.addEventListener("keydown", onKeyDown);
+	return () => document.removeEventListener("keydown", onKeyDown);
+};
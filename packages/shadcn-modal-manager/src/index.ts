@@ -6,6 +6,7 @@ export type {
 	BaseUiDialogPopupProps,
 	BaseUiDialogPortalProps,
 	BaseUiDialogRootProps,
+	BaseUiOpenChangeDetails,
 	BaseUiPopoverPopupProps,
 	BaseUiPopoverPortalProps,
 	BaseUiPopoverRootProps,
@@ -48,6 +49,8 @@ export {
 	shadcnUiSheet,
 	shadcnUiSheetContent,
 } from "./adapters";
+// Re-export errors
+export { type GetOpenModals, ModalDismissedError } from "./api";
 // Re-export context and provider
 export {
 	ModalContext,
@@ -56,30 +59,103 @@ export {
 	ModalProvider,
 } from "./context";
 // Re-export core utilities (for advanced usage)
-export { getModalId, reducer } from "./core";
+export { getModalId, getModalStack, reducer } from "./core";
+// Re-export development tools
+export { ModalDevTools, type ModalDevToolsProps } from "./devtools";
+// Re-export dialog renderers
+export {
+	createShadcnDialogRenderer,
+	type ShadcnAlertDialogParts,
+	type ShadcnDialogRendererOptions,
+} from "./dialogs";
+// Re-export history bindings
+export { createBrowserHistory } from "./history";
 // Re-export hooks
-export { useModal, useModalConfig, useModalData } from "./hooks";
-export { ModalManager } from "./modal-manager";
+export {
+	useModal,
+	useModalChildResult,
+	useModalCloseGuard,
+	useModalConfig,
+	useModalData,
+	useModalStack,
+	useModalStatus,
+	useModalSteps,
+} from "./hooks";
+export {
+	createModalManager,
+	ModalManager,
+	type ModalManagerInstance,
+} from "./modal-manager";
+// Re-export persistence storage
+export { createMemoryStorage } from "./persist";
 // Re-export types
 export type {
+	CreateModalOptions,
 	DeferredPromise,
 	InternalModalConfig,
 	ModalAction,
+	ModalActionListener,
 	ModalActionType,
+	ModalAlertOptions,
 	ModalAnimationHandlers,
+	ModalChildResult,
+	ModalChildResultListener,
+	ModalCloseAllResult,
+	ModalCloseGuard,
+	ModalCloseGuardContext,
+	ModalCloseOutcome,
+	ModalCloseReason,
 	ModalConfig,
+	ModalConfirmOptions,
 	ModalControls,
+	ModalDialogKind,
+	ModalDialogOptions,
+	ModalDialogRenderer,
+	ModalDialogRendererProps,
+	ModalDismissReason,
+	ModalErrorFallbackProps,
+	ModalEventListener,
+	ModalEventMap,
+	ModalEventName,
+	ModalExternalStore,
 	ModalHandler,
+	ModalHistory,
+	ModalHistoryEntry,
+	ModalHistoryOptions,
 	ModalHocProps,
+	ModalHotkey,
+	ModalHotkeyConfig,
+	ModalHotkeyScope,
+	ModalInspection,
+	ModalInstanceMode,
 	ModalLifecycleState,
+	ModalLoader,
+	ModalMiddleware,
+	ModalMiddlewareContext,
+	ModalMiddlewareType,
+	ModalPersistOptions,
+	ModalPromptOptions,
 	ModalProps,
 	ModalProviderProps,
 	ModalReadState,
+	ModalReduxDevToolsOptions,
 	ModalRef,
+	ModalReplaceConfig,
+	ModalStackEntry,
 	ModalState,
+	ModalStatus,
+	ModalSteps,
+	ModalStepsOptions,
+	ModalStorage,
 	ModalStore,
+	ModalToken,
+	ModalTreeNode,
 	RadixDialogContentProps,
 	RadixDialogProps,
+	ReduxDevToolsConnection,
+	ReduxDevToolsExtension,
+	ReduxDevToolsMessage,
+	ReplaceModal,
 	ShadcnDialogProps,
 } from "./types";
 // Re-export constants
@@ -1,15 +1,206 @@
-import {
-	cleanupAllModals,
-	cleanupModal,
-	closeAllModals,
-	closeModal,
-	getOpenModals,
-	hasOpenModals,
-	openModal,
-	removeModal,
-} from "./api";
-import { register, unregister } from "./core";
-import { createModal } from "./hoc";
+import type { ComponentType } from "react";
+import { createModalApi, defaultApi, type ModalApi } from "./api";
+import { createModalCore } from "./core";
+import { alertDialog, confirmDialog, promptDialog } from "./dialogs";
+import { bindModalHistory } from "./history";
+import { createModal, defineModal } from "./hoc";
+import { bindModalHotkey } from "./hotkeys";
+import { connectReduxDevTools } from "./redux-devtools";
+import type {
+	ModalAlertOptions,
+	ModalConfirmOptions,
+	ModalHistoryOptions,
+	ModalHotkeyConfig,
+	ModalPromptOptions,
+	ModalReduxDevToolsOptions,
+} from "./types";
+
+/**
+ * Build the public manager namespace on top of a modal API
+ */
+const buildModalManager = (api: ModalApi) =>
+	({
+		/**
+		 * Create a modal component with lifecycle management.
+		 * Wraps your component with automatic registration and state handling.
+		 */
+		create: createModal,
+
+		/**
+		 * Define a typed modal: `define<TData, TResult>()(Component)`.
+		 * The returned token makes open() infer data and result types.
+		 */
+		define: defineModal,
+
+		/**
+		 * Open a modal and return a ModalRef for controlling it.
+		 * @returns ModalRef with afterOpened(), afterClosed(), beforeClosed() promises
+		 */
+		open: api.openModal,
+
+		/**
+		 * Ask the user to confirm, e.g. `await ModalManager.confirm({ title: "Delete?" })`.
+		 * @returns Promise resolving to true if confirmed, false if dismissed
+		 */
+		confirm: (options: ModalConfirmOptions) => confirmDialog(api, options),
+
+		/**
+		 * Tell the user something.
+		 * @returns Promise resolving once the dialog closed
+		 */
+		alert: (options: ModalAlertOptions) => alertDialog(api, options),
+
+		/**
+		 * Ask the user for a line of text.
+		 * @returns Promise resolving to the entered text, or null if dismissed
+		 */
+		prompt: (options: ModalPromptOptions) => promptDialog(api, options),
+
+		/**
+		 * Close a specific modal by component or ID, consulting its close guards.
+		 * @returns Promise resolving to true once the close animation completed,
+		 * or false if a guard kept the modal open
+		 */
+		close: api.closeModal,
+
+		/**
+		 * Close all open modals, or only the instances of the given modal.
+		 * @returns Promise that resolves when all close animations complete
+		 */
+		closeAll: api.closeAllModals,
+
+		/**
+		 * Get the IDs of a modal's open instances, ordered from bottom to top.
+		 */
+		getInstances: api.getInstances,
+
+		/**
+		 * Remove a modal from the DOM completely.
+		 */
+		remove: api.removeModal,
+
+		/**
+		 * Add a middleware run before modals open, close, are dismissed or removed.
+		 * @returns Function that removes the middleware
+		 */
+		use: api.use,
+
+		/**
+		 * Listen to a lifecycle event (open, opened, beforeClose, closed,
+		 * removed, dataChanged) of every modal.
+		 * @returns Function that removes the listener
+		 */
+		on: api.on,
+
+		/**
+		 * Check if any modals are currently open.
+		 */
+		hasOpen: api.hasOpenModals,
+
+		/**
+		 * Get array of currently open modal IDs, ordered from bottom to top.
+		 * Pass `{ tree: true }` to get them nested under their parent modals.
+		 */
+		getOpen: api.getOpenModals,
+
+		/**
+		 * Get the ID of the topmost open modal.
+		 */
+		getTop: api.getTopModal,
+
+		/**
+		 * Register a modal component with an ID for later use.
+		 */
+		register: api.core.register,
+
+		/**
+		 * Register a modal loaded on demand, e.g. `() => import("./BigModal")`.
+		 * The chunk loads on first open() or preload().
+		 */
+		registerLazy: api.core.registerLazy,
+
+		/**
+		 * Load a lazily registered modal's chunk ahead of time.
+		 */
+		preload: api.core.preload,
+
+		/**
+		 * Unregister a previously registered modal.
+		 */
+		unregister: api.core.unregister,
+
+		/**
+		 * Sync modals with the URL so they can be deep-linked and closed with back.
+		 * @returns Function that stops syncing
+		 */
+		bindHistory: (options: ModalHistoryOptions) =>
+			bindModalHistory(api, options),
+
+		/**
+		 * Open a modal with a keyboard shortcut such as "mod+k" while a
+		 * ModalProvider is mounted. Replaces the modal's previous hotkey.
+		 * @returns Function that removes the hotkey
+		 */
+		bindHotkey: <TData = Record<string, unknown>>(
+			keys: string,
+			// biome-ignore lint/suspicious/noExplicitAny: component props vary
+			modal: ComponentType<any> | string,
+			config?: ModalHotkeyConfig<TData>,
+		) => bindModalHotkey(api, keys, modal, config),
+
+		/**
+		 * Report actions to the Redux DevTools extension, with time-travel.
+		 * @returns Function that disconnects from the extension
+		 */
+		connectReduxDevTools: (options?: ModalReduxDevToolsOptions) =>
+			connectReduxDevTools(api, options),
+
+		/**
+		 * Framework-agnostic store holding the modal state.
+		 * Subscribe to it to observe modals outside React.
+		 */
+		store: api.core.store,
+
+		/**
+		 * Clean up all internal state for a specific modal.
+		 */
+		cleanup: api.cleanupModal,
+
+		/**
+		 * Clean up all modal state (useful for testing).
+		 */
+		cleanupAll: api.cleanupAllModals,
+
+		/**
+		 * Low-level API consumed by ModalProvider and hooks.
+		 * @internal
+		 */
+		api,
+	}) as const;
+
+/**
+ * A modal manager instance with its own registry, callbacks and lifecycle state
+ */
+export type ModalManagerInstance = ReturnType<typeof buildModalManager>;
+
+/**
+ * Create an isolated modal manager.
+ * Pass it to `<ModalProvider manager={...}>` so several providers can live on
+ * one page (micro-frontends, embedded widgets) without sharing state.
+ *
+ * @example
+ * ```tsx
+ * const widgetModals = createModalManager();
+ *
+ * <ModalProvider manager={widgetModals}>
+ *   <Widget />
+ * </ModalProvider>
+ *
+ * widgetModals.open(WidgetSettingsModal);
+ * ```
+ */
+export const createModalManager = (): ModalManagerInstance =>
+	buildModalManager(createModalApi(createModalCore()));
 
 /**
  * ModalManager namespace - the primary API for managing modals.
@@ -43,63 +234,4 @@ import { createModal } from "./hoc";
  * ModalManager.closeAll();
  * ```
  */
-export const ModalManager = {
-	/**
-	 * Create a modal component with lifecycle management.
-	 * Wraps your component with automatic registration and state handling.
-	 */
-	create: createModal,
-
-	/**
-	 * Open a modal and return a ModalRef for controlling it.
-	 * @returns ModalRef with afterOpened(), afterClosed(), beforeClosed() promises
-	 */
-	open: openModal,
-
-	/**
-	 * Close a specific modal by component or ID.
-	 * @returns Promise that resolves when the close animation completes
-	 */
-	close: closeModal,
-
-	/**
-	 * Close all open modals.
-	 * @returns Promise that resolves when all close animations complete
-	 */
-	closeAll: closeAllModals,
-
-	/**
-	 * Remove a modal from the DOM completely.
-	 */
-	remove: removeModal,
-
-	/**
-	 * Check if any modals are currently open.
-	 */
-	hasOpen: hasOpenModals,
-
-	/**
-	 * Get array of currently open modal IDs.
-	 */
-	getOpen: getOpenModals,
-
-	/**
-	 * Register a modal component with an ID for later use.
-	 */
-	register,
-
-	/**
-	 * Unregister a previously registered modal.
-	 */
-	unregister,
-
-	/**
-	 * Clean up all internal state for a specific modal.
-	 */
-	cleanup: cleanupModal,
-
-	/**
-	 * Clean up all modal state (useful for testing).
-	 */
-	cleanupAll: cleanupAllModals,
-} as const;
+export const ModalManager: ModalManagerInstance = buildModalManager(defaultApi);
@@ -0,0 +1,186 @@
+import type { ModalApi } from "./api";
+import { getModalStack, isUid } from "./core";
+import {
+	MODAL_CONFIG_KEY,
+	type ModalPersistOptions,
+	type ModalStorage,
+} from "./types";
+
+/** Storage key used when none is configured */
+const DEFAULT_KEY = "shadcn-modal-manager";
+
+/** A persisted modal, ordered from bottom to top in the snapshot */
+interface PersistedModal {
+	modalId: string;
+	registryId: string;
+	data: Record<string, unknown>;
+	/** Opened by component, so it is reopened by the registered component */
+	component?: true;
+}
+
+/** Whether a value survives a JSON round trip unchanged */
+const isSerializable = (value: unknown): boolean => {
+	if (
+		value === null ||
+		typeof value === "string" ||
+		typeof value === "boolean"
+	) {
+		return true;
+	}
+	if (typeof value === "number") {
+		return Number.isFinite(value);
+	}
+	if (Array.isArray(value)) {
+		return value.every(isSerializable);
+	}
+	if (typeof value === "object") {
+		const proto = Object.getPrototypeOf(value);
+		return (
+			(proto === Object.prototype || proto === null) &&
+			Object.values(value).every(
+				(item) => item === undefined || isSerializable(item),
+			)
+		);
+	}
+	return false;
+};
+
+const readSnapshot = (storage: ModalStorage, key: string): PersistedModal[] => {
+	try {
+		const snapshot: unknown = JSON.parse(storage.getItem(key) ?? "[]");
+		return Array.isArray(snapshot) ? (snapshot as PersistedModal[]) : [];
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * In-memory storage, e.g. for tests or when Web Storage is unavailable
+ */
+export const createMemoryStorage = (): ModalStorage => {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+		removeItem: (key) => {
+			items.delete(key);
+		},
+	};
+};
+
+/**
+ * Save the persistable modals of an API to storage on every change
+ * Modals from a previous snapshot are reopened first, as long as their
+ * registry entry exists. Data that can't be stored as JSON is left out.
+ *
+ * @returns Function that stops saving
+ */
+export const bindModalPersistence = (
+	api: ModalApi,
+	options: ModalPersistOptions,
+): (() => void) => {
+	const { storage, key = DEFAULT_KEY } = options;
+	const { store } = api.core;
+	const warned = new Set<string>();
+
+	const toSerializableData = (
+		modalId: string,
+		data: Record<string, unknown> | undefined,
+	): Record<string, unknown> => {
+		const serializable: Record<string, unknown> = {};
+		for (const [name, value] of Object.entries(data ?? {})) {
+			if (name === MODAL_CONFIG_KEY || value === undefined) {
+				continue;
+			}
+			if (isSerializable(value)) {
+				serializable[name] = value;
+				continue;
+			}
+			// Warn once per key, the store changes far more often than data does
+			const warning = `${modalId}.${name}`;
+			if (!warned.has(warning)) {
+				warned.add(warning);
+				console.warn(
+					`[ModalManager] Not persisting data "${name}" of modal "${modalId}" because it is not serializable.`,
+				);
+			}
+		}
+		return serializable;
+	};
+
+	/**
+	 * Registry ID a modal can be found under after a reload. Modals opened by
+	 * component have a generated ID, so the name the component was registered
+	 * under is saved instead.
+	 */
+	const getStableId = (
+		modalId: string,
+		registryId: string,
+	): Pick<PersistedModal, "registryId" | "component"> | undefined => {
+		if (!isUid(registryId)) {
+			return { registryId };
+		}
+		const comp = api.core.registry[registryId]?.comp;
+		const name = comp ? api.core.getRegisteredId(comp) : undefined;
+		if (name !== undefined) {
+			return { registryId: name, component: true };
+		}
+		if (!warned.has(modalId)) {
+			warned.add(modalId);
+			console.warn(
+				`[ModalManager] Not persisting modal "${modalId}" because it has no stable ID. Register it with register(id, Modal).`,
+			);
+		}
+		return undefined;
+	};
+
+	const save = (): void => {
+		const state = store.getSnapshot();
+		const snapshot: PersistedModal[] = getModalStack(state)
+			.filter((entry) => api.isPersistable(entry.modalId))
+			.flatMap((entry) => {
+				const stableId = getStableId(
+					entry.modalId,
+					state[entry.modalId]?.instanceOf ?? entry.modalId,
+				);
+				return stableId
+					? [
+							{
+								modalId: entry.modalId,
+								...stableId,
+								data: toSerializableData(entry.modalId, entry.data),
+							},
+						]
+					: [];
+			});
+
+		if (snapshot.length === 0) {
+			storage.removeItem(key);
+		} else {
+			storage.setItem(key, JSON.stringify(snapshot));
+		}
+	};
+
+	const snapshot = readSnapshot(storage, key);
+	const unsubscribe = store.subscribe(save);
+
+	// Reopen the modals of the previous page, skipping ones already open
+	const openIds = new Set(
+		getModalStack(store.getSnapshot()).map((entry) => entry.modalId),
+	);
+	for (const { modalId, registryId, data, component } of snapshot) {
+		const entry = api.core.registry[registryId];
+		// Generated IDs may belong to another component on this page load
+		if (openIds.has(modalId) || !entry || isUid(registryId)) {
+			continue;
+		}
+		api.openModal(component ? entry.comp : registryId, {
+			data,
+			persistable: true,
+		});
+	}
+
+	return unsubscribe;
+};
@@ -0,0 +1,63 @@
+import type { ModalApi } from "./api";
+import type {
+	ModalReduxDevToolsOptions,
+	ModalStore,
+	ReduxDevToolsExtension,
+} from "./types";
+
+/** Instance name shown in the extension when none is configured */
+const DEFAULT_NAME = "shadcn-modal-manager";
+
+/** Monitor actions that ask to show an earlier state */
+const JUMP_ACTIONS = new Set(["JUMP_TO_STATE", "JUMP_TO_ACTION"]);
+
+const getInstalledExtension = (): ReduxDevToolsExtension | undefined =>
+	typeof window === "undefined"
+		? undefined
+		: (
+				window as Window & {
+					__REDUX_DEVTOOLS_EXTENSION__?: ReduxDevToolsExtension;
+				}
+			).__REDUX_DEVTOOLS_EXTENSION__;
+
+/**
+ * Report the actions of an API to the Redux DevTools extension
+ * Time-travel in the extension replaces the modal store with the chosen
+ * state, which an external dispatch overrides with its own state. Does
+ * nothing when the extension is not installed.
+ *
+ * @returns Function that disconnects from the extension
+ */
+export const connectReduxDevTools = (
+	api: ModalApi,
+	options: ModalReduxDevToolsOptions = {},
+): (() => void) => {
+	const extension = options.extension ?? getInstalledExtension();
+	if (!extension) {
+		return () => undefined;
+	}
+
+	const { store } = api.core;
+	const devtools = extension.connect({ name: options.name ?? DEFAULT_NAME });
+	devtools.init(store.getSnapshot());
+
+	const stopSending = api.core.onAction((action, _prevState, nextState) => {
+		devtools.send(action, nextState);
+	});
+	const stopListening = devtools.subscribe((message) => {
+		if (
+			message.type === "DISPATCH" &&
+			message.payload &&
+			JUMP_ACTIONS.has(message.payload.type) &&
+			message.state !== undefined
+		) {
+			// Replacing the store skips dispatch, so the jump isn't sent back
+			store.setState(JSON.parse(message.state) as ModalStore);
+		}
+	});
+
+	return () => {
+		stopSending();
+		stopListening();
+	};
+};
@@ -0,0 +1,49 @@
+import type { ModalAction, ModalExternalStore, ModalStore } from "./types";
+
+/**
+ * Create a framework-agnostic modal store
+ * Compatible with React's useSyncExternalStore, so modals can be opened
+ * from service code before any ModalProvider has rendered.
+ *
+ * @example
+ * ```ts
+ * const store = createModalStore(reducer, {});
+ * const unsubscribe = store.subscribe(() => {
+ *   console.log(store.getSnapshot());
+ * });
+ * store.dispatch(actions.open("my-modal"));
+ * ```
+ */
+export const createModalStore = (
+	reducer: (state: ModalStore, action: ModalAction) => ModalStore,
+	initialState: ModalStore,
+): ModalExternalStore => {
+	let state = initialState;
+	const listeners = new Set<() => void>();
+
+	const setState = (nextState: ModalStore): void => {
+		// Skip notifying when the reducer returned the same state
+		if (nextState === state) {
+			return;
+		}
+		state = nextState;
+		for (const listener of listeners) {
+			listener();
+		}
+	};
+
+	return {
+		getSnapshot: () => state,
+		getServerSnapshot: () => state,
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		dispatch: (action) => {
+			setState(reducer(state, action));
+		},
+		setState,
+	};
+};
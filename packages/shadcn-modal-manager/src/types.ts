@@ -3,7 +3,10 @@ import type {
 	Dispatch,
 	JSXElementConstructor,
 	ReactNode,
+	SyntheticEvent,
 } from "react";
+import type { RefProp } from "./hoc";
+import type { ModalManagerInstance } from "./modal-manager";
 
 // =============================================================================
 // Internal Types
@@ -31,6 +34,18 @@ export interface ModalState {
 	isOpen?: boolean;
 	delayOpen?: boolean;
 	keepMounted?: boolean;
+	/** Stack depth recorded when opened (higher renders above lower) */
+	depth?: number;
+	/** Registry ID this instance renders, for multi-instance modals */
+	instanceOf?: string;
+	/** Whether an action started with runAction() is pending */
+	isBusy?: boolean;
+	/** What the last runAction() failed with */
+	actionError?: unknown;
+	/** Current step of a modal using useModalSteps() */
+	step?: number;
+	/** Data collected by the steps of useModalSteps() */
+	stepData?: Record<string, unknown>;
 }
 
 /**
@@ -40,10 +55,33 @@ export interface ModalStore {
 	[key: string]: ModalState | undefined;
 }
 
+/**
+ * Framework-agnostic container for the ModalStore
+ * Shaped for React's useSyncExternalStore
+ */
+export interface ModalExternalStore {
+	/** Get the current modal store */
+	getSnapshot: () => ModalStore;
+	/** Get the modal store used while rendering on the server */
+	getServerSnapshot: () => ModalStore;
+	/** Subscribe to store changes, returns an unsubscribe function */
+	subscribe: (listener: () => void) => () => void;
+	/** Run an action through the reducer and notify subscribers */
+	dispatch: Dispatch<ModalAction>;
+	/** Replace the whole modal store and notify subscribers */
+	setState: (state: ModalStore) => void;
+}
+
+/**
+ * Whether opening a modal reuses its slot ("single") or creates a new
+ * instance with its own ID and promises every time ("multiple")
+ */
+export type ModalInstanceMode = "single" | "multiple";
+
 /**
  * Modal lifecycle state
  */
-export type ModalLifecycleState = "open" | "closing" | "closed";
+export type ModalLifecycleState = "queued" | "open" | "closing" | "closed";
 
 // =============================================================================
 // Action Types (for Redux/external state management)
@@ -57,9 +95,34 @@ export interface ModalAction {
 		modalId: string;
 		data?: Record<string, unknown>;
 		flags?: Record<string, unknown>;
+		depth?: number;
+		instanceOf?: string;
 	};
 }
 
+/**
+ * Listener called after every dispatched action
+ * The states are those of the manager's built-in store, so with an external
+ * dispatch both are the store as the manager last saw it.
+ */
+export type ModalActionListener = (
+	action: ModalAction,
+	prevState: ModalStore,
+	nextState: ModalStore,
+) => void;
+
+/**
+ * Entry in the ordered stack of open modals
+ */
+export interface ModalStackEntry {
+	/** The modal's unique identifier */
+	readonly modalId: string;
+	/** Stack depth (higher renders above lower) */
+	readonly depth: number;
+	/** Data passed to the modal via open() */
+	readonly data: Record<string, unknown> | undefined;
+}
+
 // =============================================================================
 // Promise/Callback Types
 // =============================================================================
@@ -73,6 +136,164 @@ export interface DeferredPromise<T = unknown> {
 	promise: Promise<T>;
 }
 
+/**
+ * Why a modal closed
+ * - `result`: closed via close() or ModalRef.close()
+ * - `dismiss`: dismissed without a more specific reason (or ModalManager.close())
+ * - `escape` / `outside`: dismissed by the Escape key or an outside click
+ * - `closeAll`: closed by closeAll()
+ * - `remove`: removed without closing (remove() or a dropped queued modal)
+ * - `replaced`: closed to make way for another modal
+ * - `abort` / `timeout`: closed by ModalConfig.signal or ModalConfig.timeoutMs
+ * - `error`: the modal threw while rendering
+ * - `cancelled`: a middleware cancelled opening the modal
+ */
+export type ModalCloseReason =
+	| "result"
+	| "dismiss"
+	| "escape"
+	| "outside"
+	| "closeAll"
+	| "remove"
+	| "replaced"
+	| "abort"
+	| "timeout"
+	| "error"
+	| "cancelled";
+
+/**
+ * Reasons a user-facing dismissal can report
+ */
+export type ModalDismissReason = Extract<
+	ModalCloseReason,
+	"dismiss" | "escape" | "outside"
+>;
+
+/**
+ * How a modal closed, as reported by ModalRef.afterClosedWithReason()
+ */
+export interface ModalCloseOutcome<TResult = unknown> {
+	/** Why the modal closed */
+	readonly reason: ModalCloseReason;
+	/** The result it closed with (undefined unless reason is "result") */
+	readonly result: TResult | undefined;
+	/** What the modal threw (only when reason is "error") */
+	readonly error?: unknown;
+}
+
+/**
+ * Context passed to close guards
+ */
+export interface ModalCloseGuardContext {
+	/** The modal being closed */
+	readonly modalId: string;
+	/** The result the modal would close with (undefined when dismissed) */
+	readonly result: unknown;
+	/** Why the modal is being closed */
+	readonly reason: ModalCloseReason;
+}
+
+/**
+ * Predicate that can veto closing a modal by returning false
+ */
+export type ModalCloseGuard = (
+	context: ModalCloseGuardContext,
+) => boolean | Promise<boolean>;
+
+/**
+ * Actions that run through middleware
+ */
+export type ModalMiddlewareType = "open" | "close" | "dismiss" | "remove";
+
+/**
+ * What a middleware is asked to let through
+ */
+export interface ModalMiddlewareContext {
+	readonly type: ModalMiddlewareType;
+	readonly modalId: string;
+	/** The modal's data; open middleware can change it or assign new data */
+	data: Record<string, unknown> | undefined;
+	/** Config passed to open() (open only) */
+	readonly config?: ModalConfig;
+	/** Result passed to close() (close only) */
+	readonly result?: unknown;
+	/** Why the modal is closing (close and dismiss only) */
+	readonly reason?: ModalCloseReason;
+}
+
+/**
+ * Runs before a modal opens, closes or is removed, in the order added.
+ * Return false to cancel the action, or a promise to wait before continuing.
+ */
+export type ModalMiddleware = (
+	context: ModalMiddlewareContext,
+	// biome-ignore lint/suspicious/noConfusingVoidType: returning nothing continues
+) => void | boolean | Promise<void | boolean>;
+
+/**
+ * Payloads of the lifecycle events emitted by ModalManager.on()
+ * Only modals that were shown emit events.
+ */
+export interface ModalEventMap {
+	/** A modal was shown (queued modals once they leave the queue) */
+	open: { modalId: string; data: Record<string, unknown> | undefined };
+	/** A modal finished its enter animation */
+	opened: { modalId: string };
+	/** A modal started closing, its beforeClosed() settles with this result */
+	beforeClose: { modalId: string; result: unknown; reason: ModalCloseReason };
+	/** A modal finished its exit animation */
+	closed: { modalId: string; result: unknown; reason: ModalCloseReason };
+	/** A modal was removed from the store */
+	removed: { modalId: string; reason: ModalCloseReason };
+	/** ModalRef.updateData() changed a modal's data */
+	dataChanged: { modalId: string; data: Record<string, unknown> | undefined };
+}
+
+/**
+ * Name of a lifecycle event
+ */
+export type ModalEventName = keyof ModalEventMap;
+
+/**
+ * Listener for a lifecycle event
+ */
+export type ModalEventListener<TEvent extends ModalEventName> = (
+	event: ModalEventMap[TEvent],
+) => void;
+
+/**
+ * An open modal and the open modals it is the parent of
+ */
+export interface ModalTreeNode {
+	readonly modalId: string;
+	/** Child modals, ordered from bottom to top */
+	readonly children: ModalTreeNode[];
+}
+
+/**
+ * Result a child modal closed with, delivered to its parent
+ */
+export interface ModalChildResult {
+	/** The child modal */
+	readonly modalId: string;
+	readonly result: unknown;
+}
+
+/**
+ * Listener for the results of a modal's children
+ */
+export type ModalChildResultListener = (child: ModalChildResult) => void;
+
+/**
+ * Outcome of closing all modals
+ */
+export interface ModalCloseAllResult {
+	/** Modals that were closed */
+	closed: string[];
+	/** Modals whose close guards refused to close */
+	refused: string[];
+}
+
 // =============================================================================
 // Modal Handler Types (returned by useModal)
 // =============================================================================
@@ -89,20 +310,95 @@ export interface ModalReadState<TData = Record<string, unknown>> {
 	readonly isOpen: boolean;
 	/** Whether to keep the modal mounted after closing */
 	readonly keepMounted: boolean;
+	/** Stack depth of the modal (higher renders above lower) */
+	readonly depth: number;
+	/** Whether this modal is the topmost open modal */
+	readonly isTopmost: boolean;
+	/** Whether an action started with runAction() is pending */
+	readonly isBusy: boolean;
 }
 
 /**
  * Methods for controlling a modal
  */
-export interface ModalControls<TData = Record<string, unknown>> {
+export interface ModalControls<
+	TData = Record<string, unknown>,
+	TResult = unknown,
+> {
 	/** Open the modal with optional data */
-	open: (data?: TData) => Promise<unknown>;
+	open(data?: TData): Promise<TResult | undefined>;
 	/** Close the modal and resolve with a result */
-	close: (result?: unknown) => void;
-	/** Dismiss the modal (close without result, resolves undefined) */
-	dismiss: () => void;
+	close(result?: TResult): void;
+	/**
+	 * Dismiss the modal (close without result, resolves undefined unless the
+	 * modal was opened with dismissBehavior "reject"). Adapters pass the
+	 * reason; events from `onClick={modal.dismiss}` count as "dismiss".
+	 */
+	dismiss(reason?: ModalDismissReason | SyntheticEvent): void;
 	/** Remove the modal from the DOM immediately */
 	remove: () => void;
+	/**
+	 * Run an action, e.g. a request, and close with the value it resolves to.
+	 * While it is pending the modal is busy and adapters block dismissal; if
+	 * it fails the modal stays open and useModalStatus() reports the error.
+	 */
+	runAction(action: () => TResult | Promise<TResult>): Promise<void>;
+	/**
+	 * Close the modal with the "replaced" reason and open another in its
+	 * place, see ModalRef.replaceWith()
+	 */
+	replace: ReplaceModal;
+}
+
+/**
+ * Status of the actions run with runAction(), returned by useModalStatus
+ */
+export interface ModalStatus {
+	/** Whether an action is pending */
+	readonly isBusy: boolean;
+	/** What the last action failed with, cleared when the next one starts */
+	readonly error: unknown;
+}
+
+/**
+ * Options for useModalSteps
+ */
+export interface ModalStepsOptions<TData = Record<string, unknown>> {
+	/** Number of steps */
+	count: number;
+	/**
+	 * Checked before leaving a step forwards, return false to stay on it.
+	 * A validator that throws or rejects counts as false.
+	 */
+	validate?: (step: number, data: Partial<TData>) => boolean | Promise<boolean>;
+}
+
+/**
+ * Step state and navigation returned by useModalSteps
+ */
+export interface ModalSteps<TData = Record<string, unknown>> {
+	/** Index of the current step, from 0 */
+	readonly step: number;
+	readonly count: number;
+	readonly isFirst: boolean;
+	readonly isLast: boolean;
+	/** Data collected so far, the modal's result once the last step is done */
+	readonly data: Partial<TData>;
+	/** Merge data into what the steps collected */
+	setData: (data: Partial<TData>) => void;
+	/**
+	 * Merge data, validate the current step, then go to the next step or,
+	 * on the last one, close the modal with the collected data
+	 * @returns Promise resolving to whether the step was left
+	 */
+	next: (data?: Partial<TData>) => Promise<boolean>;
+	/** Go to the previous step, without validation */
+	back: () => void;
+	/**
+	 * Go to a step. Going forwards validates the current step only.
+	 * @returns Promise resolving to whether the step changed
+	 */
+	goTo: (step: number) => Promise<boolean>;
 }
 
 /**
@@ -118,9 +414,11 @@ export interface ModalAnimationHandlers {
  * Complete modal handler returned by useModal hook
  * Combines state, controls, and animation handlers
  */
-export interface ModalHandler<TData = Record<string, unknown>>
-	extends ModalReadState<TData>,
-		ModalControls<TData>,
+export interface ModalHandler<
+	TData = Record<string, unknown>,
+	TResult = unknown,
+> extends ModalReadState<TData>,
+		ModalControls<TData, TResult>,
 		ModalAnimationHandlers {}
 
 // =============================================================================
@@ -137,6 +435,16 @@ export interface ModalHocProps {
 	keepMounted?: boolean;
 }
 
+/**
+ * Options for ModalManager.create() and ModalManager.define()
+ */
+export interface CreateModalOptions {
+	/** Open a new instance on every open() (toasts, stacked confirms) */
+	instance?: ModalInstanceMode;
+	/** Restore the modal after a reload when the provider persists modals */
+	persistable?: boolean;
+}
+
 /**
  * Registry entry for a modal component
  */
@@ -145,8 +453,39 @@ export interface ModalRegistryEntry<
 > {
 	comp: ComponentType<ModalHocProps & TProps>;
 	props?: TProps;
+	/** Load the component's chunk ahead of time (lazy registrations only) */
+	preload?: () => Promise<void>;
+	/** Keyboard shortcut opening the modal, set by ModalManager.bindHotkey() */
+	hotkey?: ModalHotkey;
 }
 
+/**
+ * Loader passed to registerLazy(), typically `() => import("./MyModal")`
+ */
+export type ModalLoader = () => Promise<{
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	default: ComponentType<any>;
+}>;
+
+/** Type-only key carrying a modal token's data and result types */
+declare const modalTypes: unique symbol;
+
+/**
+ * Typed modal component created with ModalManager.define()
+ * Ties the data passed to open() and the result awaited from afterClosed()
+ * to the modal itself.
+ */
+export type ModalToken<
+	TData extends Record<string, unknown> = Record<string, unknown>,
+	TResult = unknown,
+	TRef = unknown,
+> = ComponentType<TData & ModalHocProps & RefProp<TRef>> & {
+	/** Type marker only, never set at runtime */
+	readonly [modalTypes]?: { data: TData; result: TResult };
+	/** Typed useModal() for use inside the modal component */
+	useModal: () => ModalHandler<TData, TResult>;
+};
+
 /**
  * Extract props from a component type, excluding HOC props
  */
@@ -168,8 +507,156 @@ export interface ModalProviderProps {
 	dispatch?: Dispatch<ModalAction>;
 	/** Optional external modal store */
 	modals?: ModalStore;
+	/** Optional isolated manager created with createModalManager() */
+	manager?: ModalManagerInstance;
+	/** Rendered while a lazily registered modal is loading */
+	fallback?: ReactNode;
+	/** Called when a modal throws while rendering or loading */
+	onError?: (modalId: string, error: unknown) => void;
+	/**
+	 * Rendered in place of a modal that threw. Without it the broken modal is
+	 * removed right away; with it, the modal is removed once dismissed.
+	 */
+	errorFallback?: ComponentType<ModalErrorFallbackProps>;
+	/** Save persistable modals to storage and reopen them after a reload */
+	persist?: ModalPersistOptions;
+	/** Called after every action with the store before and after it */
+	onAction?: ModalActionListener;
+	/**
+	 * Modals rendered open from the first render, e.g. on the server.
+	 * Key them by registered IDs so server and client agree on them.
+	 * Ignored when an external dispatch and modals are given.
+	 */
+	initialModals?: ModalStore;
+	/**
+	 * Renders the dialogs of confirm(), alert() and prompt(), e.g. one made
+	 * with createShadcnDialogRenderer(). Defaults to a plain, unstyled dialog.
+	 */
+	dialogRenderer?: ModalDialogRenderer;
+}
+
+/**
+ * Storage used to persist modals across reloads
+ * localStorage and sessionStorage can be passed as is
+ */
+export interface ModalStorage {
+	getItem: (key: string) => string | null;
+	setItem: (key: string, value: string) => void;
+	removeItem: (key: string) => void;
+}
+
+/**
+ * Options for ModalProvider's persist prop
+ */
+export interface ModalPersistOptions {
+	/** Where snapshots are kept, e.g. sessionStorage or createMemoryStorage() */
+	storage: ModalStorage;
+	/** Storage key, defaults to "shadcn-modal-manager" */
+	key?: string;
+}
+
+/**
+ * Props passed to ModalProvider's errorFallback
+ */
+export interface ModalErrorFallbackProps {
+	/** The modal that threw */
+	readonly modalId: string;
+	/** What it threw */
+	readonly error: unknown;
+	/** Remove the broken modal (and this fallback) */
+	readonly dismiss: () => void;
+}
+
+// =============================================================================
+// Dialog Types (confirm, alert, prompt)
+// =============================================================================
+
+/**
+ * Kind of dialog opened by confirm(), alert() or prompt()
+ */
+export type ModalDialogKind = "confirm" | "alert" | "prompt";
+
+/**
+ * Options shared by confirm(), alert() and prompt()
+ */
+export interface ModalDialogOptions {
+	title: ReactNode;
+	description?: ReactNode;
+	/** Label of the confirm button, defaults to "OK" */
+	confirmLabel?: ReactNode;
+	/** Style the confirm button as destructive */
+	destructive?: boolean;
 }
 
+/**
+ * Options for ModalManager.confirm()
+ */
+export interface ModalConfirmOptions extends ModalDialogOptions {
+	/** Label of the cancel button, defaults to "Cancel" */
+	cancelLabel?: ReactNode;
+	/**
+	 * Run before the dialog closes. While its promise is pending the dialog
+	 * shows a loading state; if it rejects the dialog stays open.
+	 */
+	onConfirm?: () => void | Promise<void>;
+}
+
+/**
+ * Options for ModalManager.alert()
+ */
+export interface ModalAlertOptions extends ModalDialogOptions {
+	/** Run before the dialog closes, like ModalConfirmOptions.onConfirm */
+	onConfirm?: () => void | Promise<void>;
+}
+
+/**
+ * Options for ModalManager.prompt()
+ */
+export interface ModalPromptOptions extends ModalDialogOptions {
+	/** Label of the cancel button, defaults to "Cancel" */
+	cancelLabel?: ReactNode;
+	/** Label of the text input */
+	inputLabel?: ReactNode;
+	/** Initial value of the text input */
+	defaultValue?: string;
+	placeholder?: string;
+	/** Run with the entered value before the dialog closes */
+	onConfirm?: (value: string) => void | Promise<void>;
+}
+
+/**
+ * Props passed to a dialog renderer
+ */
+export interface ModalDialogRendererProps {
+	/** Handler of the dialog's modal, for the adapters */
+	readonly modal: ModalHandler;
+	readonly kind: ModalDialogKind;
+	readonly title: ReactNode;
+	readonly description: ReactNode;
+	readonly confirmLabel: ReactNode;
+	/** Not shown by alerts */
+	readonly cancelLabel: ReactNode;
+	readonly destructive: boolean;
+	/** Prompt input */
+	readonly inputLabel: ReactNode;
+	readonly placeholder: string | undefined;
+	readonly value: string;
+	readonly onValueChange: (value: string) => void;
+	/** Whether onConfirm is running, buttons and dismissal should be disabled */
+	readonly loading: boolean;
+	/** What the last onConfirm threw or rejected with */
+	readonly error: unknown;
+	/** Run onConfirm, then close with the dialog's result */
+	readonly confirm: () => void;
+	/** Dismiss the dialog */
+	readonly cancel: () => void;
+}
+
+/**
+ * Component rendering the dialogs of confirm(), alert() and prompt()
+ */
+export type ModalDialogRenderer = ComponentType<ModalDialogRendererProps>;
+
 // =============================================================================
 // Modal Reference Type (returned by open())
 // =============================================================================
@@ -189,14 +676,25 @@ export interface ModalRef<TResult = unknown, TData = unknown> {
 	close: (result?: TResult) => void;
 	/** Promise that resolves when the modal opening animation completes */
 	afterOpened: () => Promise<void>;
-	/** Promise that resolves with the result when the modal closing animation completes */
+	/**
+	 * Promise that resolves with the result when the modal closing animation completes.
+	 * With dismissBehavior "reject" it rejects with a ModalDismissedError
+	 * unless the modal closed with a result.
+	 */
 	afterClosed: () => Promise<TResult | undefined>;
+	/** Promise that resolves with the close reason and result, never rejects */
+	afterClosedWithReason: () => Promise<ModalCloseOutcome<TResult>>;
 	/** Promise that resolves when the modal starts closing (before animation) */
 	beforeClosed: () => Promise<TResult | undefined>;
 	/** Update the data passed to the modal */
 	updateData: (data: Partial<TData>) => void;
 	/** Get the current lifecycle state of the modal */
 	getState: () => ModalLifecycleState;
+	/**
+	 * Close this modal with the "replaced" reason and open another in its
+	 * place. afterClosed() of this modal then settles like the next one's.
+	 */
+	replaceWith: ReplaceModal;
 }
 
 /**
@@ -211,12 +709,207 @@ export interface ModalConfig<TData = unknown> {
 	readonly modalId?: string;
 	/** Whether clicking outside/escape closes the modal */
 	readonly disableClose?: boolean;
+	/**
+	 * Open a new instance ("multiple") instead of reusing the modal's slot.
+	 * Defaults to the mode the modal was created with.
+	 */
+	readonly instance?: ModalInstanceMode;
+	/**
+	 * Queue channel ("global" or any custom name). While another modal of the
+	 * same channel is open, this one waits with the "queued" state.
+	 */
+	readonly queue?: string;
+	/** Priority within the queue channel (higher opens first, default 0) */
+	readonly priority?: number;
+	/** Guard consulted before the modal closes, return false to keep it open */
+	readonly canClose?: ModalCloseGuard;
+	/**
+	 * What afterClosed() and beforeClosed() do when the modal closes without
+	 * a result: "resolve" with undefined (default) or "reject" with a
+	 * ModalDismissedError carrying the close reason (or, when the modal
+	 * threw while rendering, with the thrown error)
+	 */
+	readonly dismissBehavior?: "resolve" | "reject";
+	/**
+	 * Close the modal (reason "abort") when this signal aborts, skipping close
+	 * guards. A signal that has already aborted drops the modal right away.
+	 */
+	readonly signal?: AbortSignal;
+	/**
+	 * Close the modal (reason "timeout") this many milliseconds after it is
+	 * shown, skipping close guards
+	 */
+	readonly timeoutMs?: number;
+	/**
+	 * ID of the modal this one belongs to. Closing or removing the parent
+	 * closes this modal first. useModal().open() inside a modal sets it.
+	 */
+	readonly parent?: string;
+	/**
+	 * Element to focus once the modal has closed, defaults to the element
+	 * focused when it opened. Pass false to leave focus alone.
+	 */
+	readonly returnFocus?: HTMLElement | false;
+	/**
+	 * Restore the modal after a reload when the provider persists modals.
+	 * Defaults to whether the modal was created as persistable.
+	 */
+	readonly persistable?: boolean;
+}
+
+/**
+ * Configuration for replacing a modal with another
+ */
+export interface ModalReplaceConfig<TData = unknown>
+	extends ModalConfig<TData> {
+	/**
+	 * Open the next modal while the replaced one animates out, instead of
+	 * once its exit animation completes
+	 */
+	readonly overlap?: boolean;
+}
+
+/**
+ * Signature of ModalRef.replaceWith() and useModal().replace()
+ * Typed tokens infer data and result types, like open()
+ */
+export interface ReplaceModal {
+	<TResult, TData extends Record<string, unknown>>(
+		modal: ModalToken<TData, TResult>,
+		config?: ModalReplaceConfig<TData>,
+	): ModalRef<TResult, TData>;
+	<TResult = unknown, TData = Record<string, unknown>>(
+		// biome-ignore lint/suspicious/noExplicitAny: Modal components have varying props types due to createModal HOC
+		modal: (ComponentType<any> & { useModal?: never }) | string,
+		config?: ModalReplaceConfig<TData>,
+	): ModalRef<TResult, TData>;
 }
 
 // =============================================================================
 // Adapter Types (for UI library integration)
 // =============================================================================
 
+/**
+ * Snapshot of a modal's lifecycle, as shown by ModalDevTools
+ */
+export interface ModalInspection {
+	/** Lifecycle state, as reported by ModalRef.getState() */
+	state: ModalLifecycleState;
+	/** Which of the modal's promises have not settled yet */
+	pending: {
+		afterOpened: boolean;
+		afterClosed: boolean;
+		closeAnimation: boolean;
+		closeGuard: boolean;
+	};
+}
+
+/**
+ * Message sent by the Redux DevTools extension to a connection
+ */
+export interface ReduxDevToolsMessage {
+	type: string;
+	payload?: { type: string };
+	/** Serialized state to jump to, for time-travel messages */
+	state?: string;
+}
+
+/**
+ * Connection to the Redux DevTools extension (the subset used here)
+ */
+export interface ReduxDevToolsConnection {
+	init: (state: unknown) => void;
+	send: (action: unknown, state: unknown) => void;
+	/** Listen for messages from the extension, returns an unsubscribe function */
+	subscribe: (listener: (message: ReduxDevToolsMessage) => void) => () => void;
+}
+
+/**
+ * The Redux DevTools extension, as found on window.__REDUX_DEVTOOLS_EXTENSION__
+ */
+export interface ReduxDevToolsExtension {
+	connect: (options?: { name?: string }) => ReduxDevToolsConnection;
+}
+
+/**
+ * Options for ModalManager.connectReduxDevTools()
+ */
+export interface ModalReduxDevToolsOptions {
+	/** Instance name shown in the extension, defaults to "shadcn-modal-manager" */
+	name?: string;
+	/** Extension to connect to, defaults to window.__REDUX_DEVTOOLS_EXTENSION__ */
+	extension?: ReduxDevToolsExtension;
+}
+
+/**
+ * Location access used to sync modals with the URL
+ * Use createBrowserHistory() or wrap your router (Next.js, React Router)
+ */
+export interface ModalHistory {
+	/** Current query string, e.g. "?modal=refund&orderId=42" */
+	getSearch: () => string;
+	/** Add a history entry with the given query string */
+	push: (search: string) => void;
+	/** Replace the current history entry's query string */
+	replace: (search: string) => void;
+	/** Move through the history stack, e.g. -1 for back */
+	go: (delta: number) => void;
+	/** Listen for back/forward navigation, returns an unsubscribe function */
+	listen: (listener: () => void) => () => void;
+}
+
+/**
+ * A modal that can be opened from the URL
+ */
+export interface ModalHistoryEntry {
+	/** Modal component or registered modal ID */
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	modal: ComponentType<any> | string;
+	/** Data keys written to the query string (restored as strings) */
+	params?: readonly string[];
+}
+
+/**
+ * Options for ModalManager.bindHistory()
+ */
+export interface ModalHistoryOptions {
+	/** Modals to sync, keyed by the name used in the URL */
+	modals: Record<string, ModalHistoryEntry>;
+	/** History implementation, defaults to createBrowserHistory() */
+	history?: ModalHistory;
+	/** Query param holding the modal name, defaults to "modal" */
+	param?: string;
+}
+
+/**
+ * When a hotkey may open its modal: "always", "noModal" while no modal is
+ * open, or `{ topmost }` while the given modal is the topmost one
+ */
+export type ModalHotkeyScope =
+	| "always"
+	| "noModal"
+	// biome-ignore lint/suspicious/noExplicitAny: component props vary
+	| { topmost: ComponentType<any> | string };
+
+/**
+ * Config for ModalManager.bindHotkey(): how the modal opens and when
+ */
+export interface ModalHotkeyConfig<TData = unknown> extends ModalConfig<TData> {
+	/** When the hotkey opens the modal (default "always") */
+	scope?: ModalHotkeyScope;
+	/** Also fire while typing in an input, textarea or editable element */
+	allowInInputs?: boolean;
+}
+
+/**
+ * Keyboard shortcut of a registered modal, e.g. "mod+k" or "shift+?"
+ */
+export interface ModalHotkey {
+	/** Keys joined with "+", "mod" is Cmd on Apple platforms and Ctrl elsewhere */
+	readonly keys: string;
+	readonly config: ModalHotkeyConfig;
+}
+
 /**
  * Props for Radix UI Dialog root component
  */
@@ -45,11 +45,16 @@ const createHandler = (overrides?: Partial<ModalHandler>): ModalHandler => ({
 	modalId: "test",
 	isOpen: true,
 	keepMounted: false,
+	depth: 0,
+	isTopmost: true,
+	isBusy: false,
 	data: {},
 	open: vi.fn(),
 	close: vi.fn(),
 	dismiss: vi.fn(),
 	remove: vi.fn(),
+	runAction: vi.fn(),
+	replace: vi.fn(),
 	onAnimationEnd: vi.fn(),
 	...overrides,
 });
@@ -90,7 +95,7 @@ describe("Radix UI Adapters", () => {
 
 			// Normal behavior
 			radixUiDialogContent(handler).onEscapeKeyDown?.(event);
-			expect(handler.dismiss).toHaveBeenCalled();
+			expect(handler.dismiss).toHaveBeenCalledWith("escape");
 
 			// Disabled close
 			vi.clearAllMocks();
@@ -106,7 +111,7 @@ describe("Radix UI Adapters", () => {
 			const event = { preventDefault: vi.fn() } as unknown as Event;
 
 			radixUiDialogContent(handler).onPointerDownOutside?.(event);
-			expect(handler.dismiss).toHaveBeenCalled();
+			expect(handler.dismiss).toHaveBeenCalledWith("outside");
 
 			vi.clearAllMocks();
 			radixUiDialogContent(handler, {
@@ -115,6 +120,18 @@ describe("Radix UI Adapters", () => {
 			expect(handler.dismiss).not.toHaveBeenCalled();
 			expect(event.preventDefault).toHaveBeenCalled();
 		});
+
+		it("ignores escape and outside clicks when not topmost", () => {
+			const handler = createHandler({ isTopmost: false });
+			const event = { preventDefault: vi.fn() } as unknown as Event;
+			const props = radixUiDialogContent(handler);
+
+			props.onEscapeKeyDown(event);
+			props.onPointerDownOutside(event);
+
+			expect(handler.dismiss).not.toHaveBeenCalled();
+			expect(event.preventDefault).toHaveBeenCalledTimes(2);
+		});
 	});
 
 	describe("radixUiAlertDialog", () => {
@@ -233,6 +250,19 @@ describe("Shadcn UI Adapters", () => {
 			expect(handler.dismiss).not.toHaveBeenCalled();
 			expect(event.preventDefault).toHaveBeenCalledTimes(2);
 		});
+
+		it("blocks escape and outside clicks while busy", () => {
+			const handler = createHandler({ isBusy: true });
+			const event = { preventDefault: vi.fn() } as unknown as Event;
+
+			const props = shadcnUiDialogContent(handler);
+			props.onEscapeKeyDown?.(event);
+			props.onPointerDownOutside?.(event);
+			shadcnUiDialog(handler).onOpenChange(false);
+
+			expect(handler.dismiss).not.toHaveBeenCalled();
+			expect(event.preventDefault).toHaveBeenCalledTimes(2);
+		});
 	});
 
 	describe("shadcnUiDrawer", () => {
@@ -343,6 +373,21 @@ describe("Base UI Adapters", () => {
 			).toBe(false);
 		});
 
+		it("passes the Base UI close reason to dismiss()", () => {
+			const handler = createHandler();
+			const props = baseUiDialog(handler);
+
+			props.onOpenChange(false, { reason: "escape-key" });
+			props.onOpenChange(false, { reason: "outside-press" });
+			props.onOpenChange(false);
+
+			expect(vi.mocked(handler.dismiss).mock.calls).toEqual([
+				["escape"],
+				["outside"],
+				["dismiss"],
+			]);
+		});
+
 		it("notifies the modal when Base UI finishes a state change", () => {
 			const handler = createHandler();
 			const props = baseUiDialog(handler);
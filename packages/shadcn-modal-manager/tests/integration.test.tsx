@@ -10,21 +10,57 @@ import {
 	render,
 	screen,
 	waitForElementToBeRemoved,
+	within,
 } from "@testing-library/react";
 import type { ReactNode } from "react";
-import { useEffect, useRef, useState } from "react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { baseUiDialog } from "../src/adapters";
+import { useEffect, useReducer, useRef, useState } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from "vitest";
+import { baseUiDialog, shadcnUiPopover } from "../src/adapters";
 import { ModalDefinition, ModalProvider } from "../src/context";
 import {
 	ALREADY_MOUNTED,
 	cleanupAllCallbacks,
+	defaultCore,
 	MODAL_REGISTRY,
 	resetUidSeed,
 	setDispatch,
 } from "../src/core";
-import { useModal } from "../src/hooks";
-import { ModalManager } from "../src/modal-manager";
+import { ModalDevTools } from "../src/devtools";
+import {
+	createShadcnDialogRenderer,
+	type ShadcnAlertDialogParts,
+} from "../src/dialogs";
+import { createBrowserHistory } from "../src/history";
+import {
+	useModal,
+	useModalChildResult,
+	useModalCloseGuard,
+	useModalStack,
+	useModalStatus,
+	useModalSteps,
+} from "../src/hooks";
+import { createModalManager, ModalManager } from "../src/modal-manager";
+import { createMemoryStorage } from "../src/persist";
+import type {
+	ModalCloseAllResult,
+	ModalDialogRenderer,
+	ModalDialogRendererProps,
+	ModalHistory,
+	ModalRef,
+	ModalStore,
+	ReduxDevToolsConnection,
+	ReduxDevToolsMessage,
+} from "../src/types";
 
 const _delay = (ms: number) =>
 	new Promise((resolve) => setTimeout(resolve, ms));
@@ -401,18 +437,2120 @@ describe("Redux Integration", () => {
 	});
 });
 
-describe("ModalProvider", () => {
-	it("throws error if open is called without provider", () => {
-		// Reset dispatch to default throwing function
-		setDispatch(() => {
-			throw new Error(
-				"No dispatch method detected. Did you wrap your app with ModalProvider?",
+describe("External Store", () => {
+	it("renders modals opened before the provider mounts", () => {
+		ModalManager.open(HocTestModal, { data: { name: "Early" } });
+
+		render(<ModalProvider />);
+
+		expect(screen.getByTestId("modal-content").textContent).toBe("Early");
+	});
+
+	it("keeps useModal in sync outside of a provider", () => {
+		let modalHandler!: ReturnType<typeof useModal>;
+
+		function Status() {
+			modalHandler = useModal("outside-modal");
+			return <span data-testid="status">{String(modalHandler.isOpen)}</span>;
+		}
+
+		render(
+			<>
+				<Status />
+				<ModalProvider>
+					<ModalDefinition component={HocTestModal} id="outside-modal" />
+				</ModalProvider>
+			</>,
+		);
+
+		expect(screen.getByTestId("status").textContent).toBe("false");
+
+		act(() => {
+			ModalManager.open("outside-modal");
+		});
+
+		expect(screen.getByTestId("status").textContent).toBe("true");
+	});
+});
+
+describe("Multi-instance Modals", () => {
+	const ToastModal = ModalManager.create<{ text?: string }>(
+		({ text }) => {
+			const modal = useModal();
+
+			// Stays rendered until its exit animation ends, like a real dialog
+			return (
+				<button
+					data-open={modal.isOpen}
+					data-testid="toast"
+					onAnimationEnd={modal.onAnimationEnd}
+					onClick={() => modal.close(text)}
+					type="button"
+				>
+					{text}
+				</button>
+			);
+		},
+		{ instance: "multiple" },
+	);
+
+	// A fixed ID keeps the shared registry entry stable across tests
+	beforeEach(() => {
+		ModalManager.register("toast", ToastModal);
+	});
+
+	it("renders each open() as its own instance", async () => {
+		render(<ModalProvider />);
+
+		let first!: ModalRef;
+		let second!: ModalRef;
+		act(() => {
+			first = ModalManager.open("toast", { data: { text: "Saved" } });
+			second = ModalManager.open("toast", { data: { text: "Synced" } });
+		});
+
+		expect(first.modalId).not.toBe(second.modalId);
+		expect(ModalManager.getInstances("toast")).toEqual([
+			first.modalId,
+			second.modalId,
+		]);
+		expect(screen.getAllByTestId("toast").map((el) => el.textContent)).toEqual([
+			"Saved",
+			"Synced",
+		]);
+
+		fireEvent.click(screen.getByText("Synced"));
+		fireEvent.animationEnd(screen.getByText("Synced"));
+
+		await expect(second.afterClosed()).resolves.toBe("Synced");
+		expect(first.getState()).toBe("open");
+		expect(screen.getAllByTestId("toast")).toHaveLength(1);
+	});
+
+	it("opens a single-instance modal as multiple per open()", () => {
+		render(<ModalProvider />);
+
+		act(() => {
+			ModalManager.open(HocTestModal, { data: { name: "Shared" } });
+			ModalManager.open(HocTestModal, {
+				data: { name: "Extra" },
+				instance: "multiple",
+			});
+		});
+
+		expect(
+			screen.getAllByTestId("modal-content").map((el) => el.textContent),
+		).toEqual(["Shared", "Extra"]);
+		expect(ModalManager.getInstances(HocTestModal)).toHaveLength(2);
+	});
+
+	it("closeAll(Component) only closes that modal's instances", async () => {
+		render(<ModalProvider />);
+
+		act(() => {
+			ModalManager.open(HocTestModal);
+			ModalManager.open("toast", { data: { text: "One" } });
+			ModalManager.open("toast", { data: { text: "Two" } });
+		});
+
+		let closing!: Promise<ModalCloseAllResult>;
+		act(() => {
+			closing = ModalManager.closeAll("toast");
+		});
+
+		for (const toast of screen.getAllByTestId("toast")) {
+			fireEvent.animationEnd(toast);
+		}
+
+		expect((await closing).closed).toHaveLength(2);
+		expect(screen.queryByTestId("toast")).toBeNull();
+		expect(ModalManager.getInstances("toast")).toEqual([]);
+		expect(ModalManager.getOpen()).toEqual(
+			ModalManager.getInstances(HocTestModal),
+		);
+		expect(ModalManager.getOpen()).toHaveLength(1);
+	});
+});
+
+describe("Lazy Modals", () => {
+	const BigModal = ModalManager.create(() => {
+		const modal = useModal();
+
+		return (
+			<div data-testid="big-modal" onAnimationEnd={modal.onAnimationEnd}>
+				Big
+			</div>
+		);
+	});
+
+	const deferredChunk = () => {
+		let resolve!: () => void;
+		const load = vi.fn(
+			() =>
+				new Promise<{ default: typeof BigModal }>((res) => {
+					resolve = () => res({ default: BigModal });
+				}),
+		);
+		return { load, resolve: () => resolve() };
+	};
+
+	it("renders the provider fallback until the chunk loads", async () => {
+		const chunk = deferredChunk();
+		ModalManager.registerLazy("big", chunk.load);
+		render(<ModalProvider fallback={<p>Loading modal</p>} />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = ModalManager.open("big");
+		});
+		const opened = vi.fn();
+		ref.afterOpened().then(opened);
+
+		expect(screen.getByText("Loading modal")).toBeTruthy();
+		expect(chunk.load).toHaveBeenCalledOnce();
+
+		await act(async () => {
+			chunk.resolve();
+		});
+
+		expect(await screen.findByTestId("big-modal")).toBeTruthy();
+		expect(screen.queryByText("Loading modal")).toBeNull();
+		expect(opened).not.toHaveBeenCalled();
+
+		fireEvent.animationEnd(screen.getByTestId("big-modal"));
+
+		await expect(ref.afterOpened()).resolves.toBeUndefined();
+	});
+
+	it("preload() shares the request with rendering", async () => {
+		const chunk = deferredChunk();
+		ModalManager.registerLazy("big", chunk.load);
+
+		const preloaded = ModalManager.preload("big");
+		chunk.resolve();
+		await preloaded;
+
+		render(<ModalProvider />);
+		act(() => {
+			ModalManager.open("big");
+		});
+
+		expect(await screen.findByTestId("big-modal")).toBeTruthy();
+		expect(chunk.load).toHaveBeenCalledOnce();
+	});
+
+	it("retries a chunk that failed to load", async () => {
+		const load = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("offline"))
+			.mockResolvedValueOnce({ default: BigModal });
+		ModalManager.registerLazy("big", load);
+
+		await expect(ModalManager.preload("big")).rejects.toThrow("offline");
+		await expect(ModalManager.preload("big")).resolves.toBeUndefined();
+		expect(load).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("Modal Error Boundary", () => {
+	const BrokenModal = ModalManager.create(() => {
+		throw new Error("render failed");
+	});
+
+	beforeEach(() => {
+		vi.spyOn(console, "error").mockImplementation(() => undefined);
+		return () => vi.restoreAllMocks();
+	});
+
+	it("removes a modal that throws and keeps the app rendered", async () => {
+		const onError = vi.fn();
+		render(
+			<ModalProvider onError={onError}>
+				<p>App content</p>
+			</ModalProvider>,
+		);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = ModalManager.open(BrokenModal);
+		});
+
+		expect(screen.getByText("App content")).toBeTruthy();
+		const outcome = await ref.afterClosedWithReason();
+		expect(outcome.reason).toBe("error");
+		expect(outcome.error).toEqual(new Error("render failed"));
+		expect(onError).toHaveBeenCalledWith(ref.modalId, outcome.error);
+		expect(ModalManager.getOpen()).toEqual([]);
+		await expect(ref.afterOpened()).resolves.toBeUndefined();
+	});
+
+	it("rejects afterClosed() with the thrown error in reject mode", async () => {
+		render(<ModalProvider />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = ModalManager.open(BrokenModal, { dismissBehavior: "reject" });
+		});
+
+		await expect(ref.afterClosed()).rejects.toThrow("render failed");
+	});
+
+	it("renders errorFallback until it is dismissed", async () => {
+		const ErrorFallback = ({
+			error,
+			dismiss,
+		}: {
+			error: unknown;
+			dismiss: () => void;
+		}) => (
+			<button onClick={dismiss} type="button">
+				{(error as Error).message}
+			</button>
+		);
+		render(<ModalProvider errorFallback={ErrorFallback} />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = ModalManager.open(BrokenModal);
+		});
+
+		const fallback = screen.getByText("render failed");
+		await expect(ref.afterClosedWithReason()).resolves.toMatchObject({
+			reason: "error",
+		});
+
+		act(() => {
+			fireEvent.click(fallback);
+		});
+		expect(screen.queryByText("render failed")).toBeNull();
+	});
+});
+
+describe("Typed Modals", () => {
+	const ConfirmModal = ModalManager.define<{ message: string }, boolean>()(
+		({ message }): ReactNode => {
+			const modal = ConfirmModal.useModal();
+
+			return modal.isOpen ? (
+				<button
+					data-testid="confirm"
+					onClick={() => modal.close(true)}
+					type="button"
+				>
+					{message}
+				</button>
+			) : null;
+		},
+	);
+
+	it("infers data and result types from the token", async () => {
+		render(<ModalProvider />);
+
+		let ref!: ModalRef<boolean, { message: string }>;
+		act(() => {
+			ref = ModalManager.open(ConfirmModal, { data: { message: "Delete?" } });
+		});
+		expectTypeOf(ref.afterClosed()).resolves.toEqualTypeOf<
+			boolean | undefined
+		>();
+
+		expect(screen.getByTestId("confirm").textContent).toBe("Delete?");
+		fireEvent.click(screen.getByTestId("confirm"));
+
+		await expect(ref.afterClosed()).resolves.toBe(true);
+	});
+
+	it("rejects mismatched data and results at compile time", () => {
+		const assertTypes = () => {
+			// @ts-expect-error - message must be a string
+			ModalManager.open(ConfirmModal, { data: { message: 42 } });
+
+			const modal = ConfirmModal.useModal();
+			// @ts-expect-error - result must be a boolean
+			modal.close("yes");
+		};
+
+		expectTypeOf(assertTypes).toBeFunction();
+	});
+});
+
+describe("Close Guards", () => {
+	it("useModalCloseGuard vetoes dismissal until it allows it", async () => {
+		let dirty = true;
+		const GuardedModal = ModalManager.create(() => {
+			const modal = useModal();
+			useModalCloseGuard(() => !dirty);
+
+			return (
+				<TestModal
+					onClose={modal.dismiss}
+					onExited={modal.remove}
+					open={modal.isOpen}
+				>
+					<span data-testid="modal-content">Guarded</span>
+				</TestModal>
 			);
 		});
 
+		render(<ModalProvider />);
+
+		let ref!: ReturnType<typeof ModalManager.open>;
+		act(() => {
+			ref = ModalManager.open(GuardedModal);
+		});
+
+		fireEvent.click(screen.getByText("Close"));
+		expect(ref.getState()).toBe("open");
+
+		dirty = false;
+		fireEvent.click(screen.getByText("Close"));
+		expect(ref.getState()).toBe("closing");
+
+		await waitForElementToBeRemoved(() => screen.queryByTestId("test-modal"));
+	});
+
+	it("throws when used outside a modal component", () => {
 		expect(() => {
-			ModalManager.open("test-modal");
-		}).toThrow("No dispatch method detected");
+			render(
+				<ModalProvider>
+					<GuardOutsideModal />
+				</ModalProvider>,
+			);
+		}).toThrow(
+			"[ModalManager] useModalCloseGuard must be used inside a modal component",
+		);
+	});
+});
+
+function GuardOutsideModal() {
+	useModalCloseGuard(() => true);
+	return null;
+}
+
+describe("Modal Stack", () => {
+	it("exposes depth and isTopmost to layered modals", () => {
+		const LayerModal = ModalManager.create<{ label?: string }>(({ label }) => {
+			const modal = useModal();
+			return (
+				<span
+					data-depth={modal.depth}
+					data-testid={`layer-${label}`}
+					data-topmost={String(modal.isTopmost)}
+				/>
+			);
+		});
+		ModalManager.register("layer-a", LayerModal);
+		ModalManager.register("layer-b", LayerModal);
+
+		render(<ModalProvider />);
+
+		act(() => {
+			ModalManager.open("layer-a", { data: { label: "a" } });
+			ModalManager.open("layer-b", { data: { label: "b" } });
+		});
+
+		expect(screen.getByTestId("layer-a")).toHaveAttribute(
+			"data-topmost",
+			"false",
+		);
+		expect(screen.getByTestId("layer-b")).toHaveAttribute(
+			"data-topmost",
+			"true",
+		);
+		expect(screen.getByTestId("layer-b")).toHaveAttribute("data-depth", "1");
+
+		act(() => {
+			ModalManager.close("layer-b");
+		});
+
+		expect(screen.getByTestId("layer-a")).toHaveAttribute(
+			"data-topmost",
+			"true",
+		);
+	});
+
+	it("useModalStack returns open modals from bottom to top", () => {
+		let stack: ReturnType<typeof useModalStack> = [];
+
+		function StackReader() {
+			stack = useModalStack();
+			return null;
+		}
+
+		render(
+			<ModalProvider>
+				<StackReader />
+			</ModalProvider>,
+		);
+
+		act(() => {
+			ModalManager.open(HocTestModal, { modalId: "first" });
+			ModalManager.open(HocTestModal, { modalId: "second" });
+		});
+
+		expect(stack.map((entry) => entry.modalId)).toEqual(["first", "second"]);
+		expect(stack.map((entry) => entry.depth)).toEqual([0, 1]);
+	});
+});
+
+describe("History Sync", () => {
+	const RefundModal = ModalManager.create(() => <p>Refund</p>);
+	const NoteModal = ModalManager.create(() => <p>Note</p>);
+
+	/** In-memory history whose go() notifies listeners like popstate */
+	const createMemoryHistory = (initial = "") => {
+		const entries = [initial];
+		let index = 0;
+		const listeners = new Set<() => void>();
+		const history: ModalHistory = {
+			getSearch: () => entries[index] ?? "",
+			push: (search) => {
+				entries.splice(index + 1, entries.length, search);
+				index++;
+			},
+			replace: (search) => {
+				entries[index] = search;
+			},
+			go: (delta) => {
+				index += delta;
+				for (const listener of listeners) {
+					listener();
+				}
+			},
+			listen: (listener) => {
+				listeners.add(listener);
+				return () => {
+					listeners.delete(listener);
+				};
+			},
+		};
+		return { history, current: () => entries.slice(0, index + 1) };
+	};
+
+	const syncedModals = {
+		refund: { modal: RefundModal, params: ["orderId"] },
+		note: { modal: NoteModal },
+	};
+
+	it("pushes an entry with the modal's params when a synced modal opens", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		const { history, current } = createMemoryHistory("?tab=orders");
+		manager.bindHistory({ modals: syncedModals, history });
+
+		act(() => {
+			manager.open(RefundModal, { data: { orderId: 42, reason: "damaged" } });
+			manager.open(HocTestModal);
+		});
+
+		expect(current()).toEqual([
+			"?tab=orders",
+			"?tab=orders&modal=refund&orderId=42",
+		]);
+	});
+
+	it("closes the top modal when navigating back", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		const { history, current } = createMemoryHistory();
+		manager.bindHistory({ modals: syncedModals, history });
+
+		let refund!: ModalRef;
+		let note!: ModalRef;
+		act(() => {
+			refund = manager.open(RefundModal, { data: { orderId: 42 } });
+			note = manager.open(NoteModal);
+		});
+
+		act(() => {
+			history.go(-1);
+		});
+
+		expect(note.getState()).toBe("closing");
+		expect(refund.getState()).toBe("open");
+		expect(current()).toEqual(["", "?modal=refund&orderId=42"]);
+	});
+
+	it("goes back when a synced modal closes in the app", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		const { history, current } = createMemoryHistory();
+		manager.bindHistory({ modals: syncedModals, history });
+
+		let refund!: ModalRef;
+		act(() => {
+			refund = manager.open(RefundModal, { data: { orderId: 42 } });
+		});
+		act(() => {
+			refund.close(true);
+		});
+
+		expect(current()).toEqual([""]);
+	});
+
+	it("opens the linked modal with its params as data", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		manager.register("refund", RefundModal);
+		const { history, current } = createMemoryHistory(
+			"?tab=orders&modal=refund&orderId=42",
+		);
+		act(() => {
+			manager.bindHistory({
+				modals: { refund: { modal: "refund", params: ["orderId"] } },
+				history,
+			});
+		});
+
+		expect(manager.getOpen()).toEqual(["refund"]);
+		expect(manager.store.getSnapshot().refund?.data).toMatchObject({
+			orderId: "42",
+		});
+
+		act(() => {
+			manager.close("refund");
+		});
+
+		// The linked entry is not ours to pop, so only the params are dropped
+		expect(current()).toEqual(["?tab=orders"]);
+	});
+
+	it("stops syncing once unbound", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		const { history, current } = createMemoryHistory();
+		const unbind = manager.bindHistory({ modals: syncedModals, history });
+
+		unbind();
+		act(() => {
+			manager.open(NoteModal);
+		});
+
+		expect(current()).toEqual([""]);
+	});
+
+	it("writes to window.history with the browser history", () => {
+		const history = createBrowserHistory();
+		window.history.replaceState(null, "", "/orders?tab=open");
+
+		history.push("?tab=open&modal=refund");
+
+		expect(window.location.pathname).toBe("/orders");
+		expect(history.getSearch()).toBe("?tab=open&modal=refund");
+		window.history.replaceState(null, "", "/");
+	});
+});
+
+describe("Modal Persistence", () => {
+	const WizardModal = ModalManager.create<{ step?: number }>(
+		({ step }) => <p>Step {step}</p>,
+		{ persistable: true },
+	);
+	const NoteModal = ModalManager.create(() => <p>Note</p>);
+
+	const readSaved = (storage: ReturnType<typeof createMemoryStorage>) =>
+		JSON.parse(storage.getItem("shadcn-modal-manager") ?? "null");
+
+	it("saves open persistable modals and forgets them once closed", () => {
+		const manager = createModalManager();
+		manager.register("wizard", WizardModal);
+		const storage = createMemoryStorage();
+		render(<ModalProvider manager={manager} persist={{ storage }} />);
+
+		let wizard!: ModalRef;
+		act(() => {
+			wizard = manager.open(WizardModal, { data: { step: 2 } });
+			manager.open(NoteModal);
+			manager.open(NoteModal, { modalId: "pinned", persistable: true });
+		});
+
+		expect(readSaved(storage)).toEqual([
+			{
+				modalId: wizard.modalId,
+				registryId: "wizard",
+				component: true,
+				data: { step: 2 },
+			},
+			{ modalId: "pinned", registryId: "pinned", data: {} },
+		]);
+
+		act(() => {
+			wizard.close();
+			manager.close("pinned");
+		});
+
+		expect(readSaved(storage)).toBeNull();
+	});
+
+	it("reopens saved modals with their data on mount", () => {
+		const manager = createModalManager();
+		manager.register("wizard", WizardModal);
+		const storage = createMemoryStorage();
+		storage.setItem(
+			"shadcn-modal-manager",
+			JSON.stringify([
+				{ modalId: "wizard", registryId: "wizard", data: { step: 3 } },
+				{ modalId: "unknown", registryId: "unknown", data: {} },
+			]),
+		);
+
+		render(<ModalProvider manager={manager} persist={{ storage }} />);
+
+		expect(manager.getOpen()).toEqual(["wizard"]);
+		expect(screen.getByText("Step 3")).toBeTruthy();
+	});
+
+	it("reopens modals opened by component in a fresh manager", () => {
+		const storage = createMemoryStorage();
+		const manager = createModalManager();
+		manager.register("wizard", WizardModal);
+		const { unmount } = render(
+			<ModalProvider manager={manager} persist={{ storage }} />,
+		);
+		let wizard!: ModalRef;
+		act(() => {
+			wizard = manager.open(WizardModal, { data: { step: 4 } });
+		});
+		unmount();
+
+		const reloaded = createModalManager();
+		reloaded.register("wizard", WizardModal);
+		render(<ModalProvider manager={reloaded} persist={{ storage }} />);
+
+		expect(reloaded.getOpen()).toEqual([wizard.modalId]);
+		expect(screen.getByText("Step 4")).toBeTruthy();
+	});
+
+	it("skips modals without a stable ID", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const manager = createModalManager();
+		const storage = createMemoryStorage();
+		storage.setItem(
+			"shadcn-modal-manager",
+			JSON.stringify([
+				{ modalId: "_modal_99", registryId: "_modal_99", data: {} },
+			]),
+		);
+		manager.register("_modal_99", NoteModal);
+		render(<ModalProvider manager={manager} persist={{ storage }} />);
+		expect(manager.getOpen()).toEqual([]);
+
+		act(() => {
+			manager.open(WizardModal, { data: { step: 1 } });
+		});
+
+		expect(readSaved(storage)).toBeNull();
+		expect(warn.mock.calls[0]?.[0]).toContain("no stable ID");
+		warn.mockRestore();
+	});
+
+	it("leaves out data that is not serializable with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		const manager = createModalManager();
+		const storage = createMemoryStorage();
+		render(<ModalProvider manager={manager} persist={{ storage }} />);
+
+		act(() => {
+			manager.open(WizardModal, {
+				modalId: "wizard",
+				data: { step: 1, onSave: () => undefined },
+			});
+		});
+
+		expect(readSaved(storage)[0].data).toEqual({ step: 1 });
+		expect(warn).toHaveBeenCalledOnce();
+		expect(warn.mock.calls[0]?.[0]).toContain('"onSave"');
+		warn.mockRestore();
+	});
+});
+
+describe("Server Rendering", () => {
+	const ConsentModal = ModalManager.create<{ region?: string }>(
+		({ region }) => {
+			const modal = useModal();
+			return modal.isOpen ? (
+				<button onClick={() => modal.close(true)} type="button">
+					{`Accept cookies (${region})`}
+				</button>
+			) : null;
+		},
+	);
+
+	const renderApp = (manager: ReturnType<typeof createModalManager>) => (
+		<ModalProvider
+			initialModals={{
+				consent: { modalId: "consent", data: { region: "EU" } },
+			}}
+			manager={manager}
+		/>
+	);
+
+	/** A manager per request, as a server would create it */
+	const createRequestManager = () => {
+		const manager = createModalManager();
+		manager.register("consent", ConsentModal);
+		return manager;
+	};
+
+	it("renders initial modals open on the server", () => {
+		const html = renderToString(renderApp(createRequestManager()));
+
+		expect(html).toContain("Accept cookies (EU)");
+		expect(ModalManager.getOpen()).toEqual([]);
+	});
+
+	it("hydrates initial modals without a mismatch", async () => {
+		const container = document.createElement("div");
+		container.innerHTML = renderToString(renderApp(createRequestManager()));
+		document.body.append(container);
+		const recoverable = vi.fn();
+
+		const manager = createRequestManager();
+		const root = await act(async () =>
+			hydrateRoot(container, renderApp(manager), {
+				onRecoverableError: recoverable,
+			}),
+		);
+
+		expect(recoverable).not.toHaveBeenCalled();
+		expect(manager.store.getSnapshot().consent).toMatchObject({
+			isOpen: true,
+			delayOpen: false,
+		});
+		expect(manager.getOpen()).toEqual(["consent"]);
+
+		act(() => {
+			fireEvent.click(screen.getByText("Accept cookies (EU)"));
+		});
+		expect(manager.store.getSnapshot().consent?.isOpen).toBe(false);
+
+		act(() => root.unmount());
+		container.remove();
+	});
+});
+
+describe("Modal DevTools", () => {
+	const PanelModal = ModalManager.create(() => {
+		const modal = useModal();
+		return (
+			<div data-testid="panel-modal" onAnimationEnd={modal.onAnimationEnd}>
+				Panel
+			</div>
+		);
+	});
+
+	it("lists registered and open modals with their lifecycle", () => {
+		ModalManager.register("panel", PanelModal);
+		render(
+			<ModalProvider>
+				<ModalDevTools initialOpen />
+			</ModalProvider>,
+		);
+
+		const tools = within(screen.getByRole("complementary"));
+		expect(tools.getByText("panel")).toBeTruthy();
+
+		act(() => {
+			fireEvent.click(tools.getByRole("button", { name: "Open" }));
+		});
+
+		expect(screen.getByTestId("panel-modal")).toBeTruthy();
+		const entry = tools.getAllByText("panel")[1]?.closest("li");
+		expect(entry?.textContent).toContain("open");
+		expect(entry?.textContent).toContain("flags: isOpen");
+		expect(entry?.textContent).toContain("afterOpened, afterClosed");
+		expect(tools.getByRole("button", { name: /1 open/ })).toBeTruthy();
+	});
+
+	it("drives modals and records dispatched actions", () => {
+		ModalManager.register("panel", PanelModal);
+		render(
+			<ModalProvider>
+				<ModalDevTools initialOpen />
+			</ModalProvider>,
+		);
+		const tools = within(screen.getByRole("complementary"));
+
+		act(() => {
+			ModalManager.open("panel", { data: { step: 2 } });
+		});
+		expect(tools.getByText('{"step":2,', { exact: false })).toBeTruthy();
+
+		act(() => {
+			fireEvent.click(tools.getByRole("button", { name: "Close" }));
+		});
+		expect(
+			tools.getAllByText("panel")[1]?.closest("li")?.textContent,
+		).toContain("closing");
+
+		act(() => {
+			fireEvent.click(tools.getByRole("button", { name: "Remove" }));
+		});
+
+		expect(screen.queryByTestId("panel-modal")).toBeNull();
+		const actions = tools
+			.getAllByRole("listitem")
+			.map((item) => item.textContent ?? "")
+			.filter((text) => text.endsWith("panel") && !text.includes("Open"));
+		expect(actions.map((text) => text.split(" ").at(-2))).toEqual([
+			"remove",
+			"hide",
+			"set-flags",
+			"show",
+		]);
+	});
+});
+
+describe("Action Log", () => {
+	const LogModal = ModalManager.create(() => <p>Logged</p>);
+
+	/** Local stand-in for the Redux DevTools extension */
+	const createDevToolsStub = () => {
+		let listener: ((message: ReduxDevToolsMessage) => void) | undefined;
+		const connection = {
+			init: vi.fn(),
+			send: vi.fn(),
+			subscribe: (next: (message: ReduxDevToolsMessage) => void) => {
+				listener = next;
+				return () => {
+					listener = undefined;
+				};
+			},
+		} satisfies ReduxDevToolsConnection;
+		return {
+			connection,
+			extension: { connect: vi.fn(() => connection) },
+			emit: (message: ReduxDevToolsMessage) => listener?.(message),
+		};
+	};
+
+	it("reports every action to onAction with the store before and after", () => {
+		const manager = createModalManager();
+		const onAction = vi.fn();
+		render(<ModalProvider manager={manager} onAction={onAction} />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(LogModal, { data: { id: 7 } });
+		});
+
+		const [action, prevState, nextState] = onAction.mock.calls[0] ?? [];
+		expect(action).toMatchObject({
+			type: "shadcn-modal-manager/show",
+			payload: { modalId: ref.modalId },
+		});
+		expect(prevState).toEqual({});
+		expect(nextState[ref.modalId].data).toMatchObject({ id: 7 });
+		expect(onAction.mock.calls.map(([{ type }]) => type)).toEqual([
+			"shadcn-modal-manager/show",
+			"shadcn-modal-manager/set-flags",
+		]);
+	});
+
+	it("reports the external store's changes with an external dispatch", () => {
+		const manager = createModalManager();
+		const onAction = vi.fn();
+		const devtools = createDevToolsStub();
+		manager.connectReduxDevTools({ extension: devtools.extension });
+		function ExternalStoreProvider() {
+			const [modals, dispatch] = useReducer(manager.api.core.reducer, {});
+			return (
+				<ModalProvider
+					dispatch={dispatch}
+					manager={manager}
+					modals={modals}
+					onAction={onAction}
+				/>
+			);
+		}
+		render(<ExternalStoreProvider />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(LogModal, { data: { id: 7 } });
+		});
+
+		const [, prevState, nextState] = onAction.mock.calls[0] ?? [];
+		expect(prevState).toEqual({});
+		expect(nextState[ref.modalId].data).toMatchObject({ id: 7 });
+		expect(devtools.connection.send).toHaveBeenCalledWith(
+			expect.objectContaining({ type: "shadcn-modal-manager/show" }),
+			nextState,
+		);
+
+		act(() => {
+			manager.close(ref.modalId);
+		});
+		const [, prevHide, nextHide] = onAction.mock.calls.at(-1) ?? [];
+		expect(prevHide[ref.modalId].isOpen).toBe(true);
+		expect(nextHide[ref.modalId].isOpen).toBe(false);
+	});
+
+	it("sends actions to Redux DevTools and time-travels on jumps", () => {
+		const manager = createModalManager();
+		const devtools = createDevToolsStub();
+		const disconnect = manager.connectReduxDevTools({
+			name: "modals",
+			extension: devtools.extension,
+		});
+
+		expect(devtools.extension.connect).toHaveBeenCalledWith({
+			name: "modals",
+		});
+		expect(devtools.connection.init).toHaveBeenCalledWith({});
+
+		manager.open(LogModal, { modalId: "log" });
+		expect(devtools.connection.send).toHaveBeenCalledWith(
+			expect.objectContaining({ type: "shadcn-modal-manager/show" }),
+			manager.store.getSnapshot(),
+		);
+
+		const earlier: ModalStore = {};
+		devtools.emit({
+			type: "DISPATCH",
+			payload: { type: "JUMP_TO_STATE" },
+			state: JSON.stringify(earlier),
+		});
+		expect(manager.store.getSnapshot()).toEqual({});
+		expect(devtools.connection.send).toHaveBeenCalledOnce();
+
+		disconnect();
+		manager.open(LogModal, { modalId: "log" });
+		expect(devtools.connection.send).toHaveBeenCalledOnce();
+	});
+
+	it("does nothing without the extension", () => {
+		const manager = createModalManager();
+		const disconnect = manager.connectReduxDevTools();
+
+		expect(() => manager.open(LogModal)).not.toThrow();
+		disconnect();
+	});
+});
+
+describe("Async Actions", () => {
+	const SaveModal = ModalManager.create<{
+		save: () => Promise<string>;
+	}>(({ save }) => {
+		const modal = useModal();
+		const { isBusy, error } = useModalStatus();
+		return (
+			<div data-testid="save-modal">
+				{isBusy && <span>Saving</span>}
+				{error instanceof Error && <p role="alert">{error.message}</p>}
+				<button onClick={() => modal.runAction(save)} type="button">
+					Save
+				</button>
+			</div>
+		);
+	});
+
+	it("keeps the modal busy, then closes with the action's value", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		let finish!: (value: string) => void;
+		const save = () =>
+			new Promise<string>((resolve) => {
+				finish = resolve;
+			});
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SaveModal, { data: { save } });
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+		});
+
+		expect(screen.getByText("Saving")).toBeTruthy();
+		expect(manager.store.getSnapshot()[ref.modalId]?.isBusy).toBe(true);
+
+		await act(async () => {
+			finish("saved");
+			await Promise.resolve();
+		});
+		await expect(ref.afterClosed()).resolves.toBe("saved");
+		expect(screen.queryByText("Saving")).toBeNull();
+	});
+
+	it("stays open and reports the error when the action fails", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		const save = vi
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(new Error("Offline"))
+			.mockResolvedValueOnce("saved");
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SaveModal, { data: { save } });
+		});
+		await act(async () => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+			await Promise.resolve();
+		});
+
+		expect(screen.getByRole("alert").textContent).toBe("Offline");
+		expect(ref.getState()).toBe("open");
+
+		await act(async () => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+			await Promise.resolve();
+		});
+		expect(screen.queryByRole("alert")).toBeNull();
+		await expect(ref.afterClosed()).resolves.toBe("saved");
+	});
+
+	it("ignores an action that settles after the modal was removed", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		let finish!: (value: string) => void;
+		const save = () =>
+			new Promise<string>((resolve) => {
+				finish = resolve;
+			});
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SaveModal, { data: { save } });
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+		});
+		act(() => {
+			manager.remove(ref.modalId);
+		});
+
+		await act(async () => {
+			finish("saved");
+			await Promise.resolve();
+		});
+		expect(manager.getOpen()).toEqual([]);
+		expect(manager.hasOpen()).toBe(false);
+	});
+
+	it("runs one action at a time with an external store", async () => {
+		const manager = createModalManager();
+		function ExternalStoreProvider() {
+			const [modals, dispatch] = useReducer(manager.api.core.reducer, {});
+			return (
+				<ModalProvider dispatch={dispatch} manager={manager} modals={modals} />
+			);
+		}
+		render(<ExternalStoreProvider />);
+		let finish!: (value: string) => void;
+		const save = vi.fn(
+			() =>
+				new Promise<string>((resolve) => {
+					finish = resolve;
+				}),
+		);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SaveModal, { data: { save } });
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+		});
+		expect(screen.getByText("Saving")).toBeTruthy();
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Save" }));
+		});
+		expect(save).toHaveBeenCalledOnce();
+
+		await act(async () => {
+			finish("saved");
+			await Promise.resolve();
+		});
+		await expect(ref.afterClosed()).resolves.toBe("saved");
+	});
+});
+
+describe("Modal Steps", () => {
+	interface SignupData {
+		email: string;
+		plan: string;
+	}
+
+	const SignupModal = ModalManager.create(() => {
+		const modal = useModal();
+		const steps = useModalSteps<SignupData>({
+			count: 2,
+			validate: (step, data) => step !== 0 || !!data.email,
+		});
+		return (
+			<div data-testid="signup" onAnimationEnd={modal.onAnimationEnd}>
+				<p>
+					Step {steps.step + 1} of {steps.count}
+				</p>
+				<button onClick={() => steps.next()} type="button">
+					Next
+				</button>
+				<button
+					onClick={() => steps.next({ email: "ada@example.com" })}
+					type="button"
+				>
+					Fill email
+				</button>
+				<button onClick={steps.back} type="button">
+					Back
+				</button>
+				<button onClick={() => steps.next({ plan: "pro" })} type="button">
+					Choose pro
+				</button>
+			</div>
+		);
+	});
+
+	const click = (name: string) => {
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name }));
+		});
+	};
+
+	it("blocks advancing until the step is valid", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		act(() => {
+			manager.open(SignupModal);
+		});
+
+		click("Next");
+		expect(screen.getByText("Step 1 of 2")).toBeTruthy();
+
+		click("Fill email");
+		expect(screen.getByText("Step 2 of 2")).toBeTruthy();
+
+		click("Back");
+		expect(screen.getByText("Step 1 of 2")).toBeTruthy();
+	});
+
+	it("closes with the collected data after the last step", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SignupModal);
+		});
+		click("Fill email");
+		click("Choose pro");
+
+		await expect(ref.afterClosed()).resolves.toEqual({
+			email: "ada@example.com",
+			plan: "pro",
+		});
+	});
+
+	it("doesn't close a dismissed modal once an async validator resolves", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		let approve!: (valid: boolean) => void;
+		const AsyncStepModal = ModalManager.create(() => {
+			const steps = useModalSteps({
+				count: 1,
+				validate: () =>
+					new Promise<boolean>((resolve) => {
+						approve = resolve;
+					}),
+			});
+			return (
+				<button onClick={() => steps.next()} type="button">
+					Finish
+				</button>
+			);
+		});
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(AsyncStepModal, { modalId: "async-steps" });
+		});
+		click("Finish");
+		act(() => {
+			manager.remove(ref.modalId);
+		});
+
+		await act(async () => {
+			approve(true);
+			await Promise.resolve();
+		});
+		expect(manager.getOpen()).toEqual([]);
+		expect(manager.hasOpen()).toBe(false);
+	});
+
+	it("keeps the step when a keepMounted modal reopens", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(SignupModal, { keepMounted: true });
+		});
+		click("Fill email");
+		act(() => {
+			ref.updateData({ source: "banner" });
+		});
+		expect(screen.getByText("Step 2 of 2")).toBeTruthy();
+
+		act(() => {
+			manager.close(SignupModal);
+		});
+		act(() => {
+			fireEvent.animationEnd(screen.getByTestId("signup"));
+		});
+		act(() => {
+			manager.open(SignupModal, { keepMounted: true });
+		});
+
+		expect(screen.getByText("Step 2 of 2")).toBeTruthy();
+	});
+});
+
+describe("Replacing Modals", () => {
+	const PlanModal = ModalManager.create(() => {
+		const modal = useModal();
+		return (
+			<div data-testid="plan" onAnimationEnd={modal.onAnimationEnd}>
+				<button
+					onClick={() => modal.replace(PaymentModal, { data: { plan: "pro" } })}
+					type="button"
+				>
+					Continue
+				</button>
+			</div>
+		);
+	});
+
+	const PaymentModal = ModalManager.create<{ plan?: string }>(({ plan }) => {
+		const modal = useModal();
+		return (
+			<div data-testid="payment" onAnimationEnd={modal.onAnimationEnd}>
+				<button onClick={() => modal.close(`paid ${plan}`)} type="button">
+					Pay
+				</button>
+			</div>
+		);
+	});
+
+	it("opens the next modal once the replaced one has animated out", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let plan!: ModalRef;
+		act(() => {
+			plan = manager.open(PlanModal);
+		});
+		const depth = manager.store.getSnapshot()[plan.modalId]?.depth;
+
+		let payment!: ModalRef;
+		act(() => {
+			payment = plan.replaceWith(PaymentModal, { data: { plan: "pro" } });
+		});
+		expect(payment.getState()).toBe("queued");
+		expect(screen.queryByTestId("payment")).toBeNull();
+		await expect(plan.afterClosedWithReason()).resolves.toEqual({
+			reason: "replaced",
+			result: undefined,
+		});
+
+		await act(async () => {
+			fireEvent.animationEnd(screen.getByTestId("plan"));
+			await Promise.resolve();
+		});
+		expect(screen.queryByTestId("plan")).toBeNull();
+		expect(screen.getByTestId("payment")).toBeTruthy();
+		expect(manager.store.getSnapshot()[payment.modalId]?.depth).toBe(depth);
+
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Pay" }));
+		});
+		await expect(plan.afterClosed()).resolves.toBe("paid pro");
+	});
+
+	it("overlaps the exit animation when asked to", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let plan!: ModalRef;
+		act(() => {
+			plan = manager.open(PlanModal);
+		});
+		let payment!: ModalRef;
+		act(() => {
+			payment = plan.replaceWith(PaymentModal, { overlap: true });
+		});
+
+		expect(plan.getState()).toBe("closing");
+		expect(payment.getState()).toBe("open");
+		expect(screen.getByTestId("plan")).toBeTruthy();
+		expect(screen.getByTestId("payment")).toBeTruthy();
+	});
+
+	it("keeps the modal and cancels the next one when a guard refuses", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let plan!: ModalRef;
+		act(() => {
+			plan = manager.open(PlanModal, {
+				canClose: ({ reason }) => reason !== "replaced",
+			});
+		});
+
+		let payment!: ModalRef;
+		act(() => {
+			payment = plan.replaceWith(PaymentModal);
+		});
+
+		expect(plan.getState()).toBe("open");
+		await expect(payment.afterClosedWithReason()).resolves.toEqual({
+			reason: "cancelled",
+			result: undefined,
+		});
+	});
+
+	it("replaces the current modal from useModal()", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let plan!: ModalRef;
+		act(() => {
+			plan = manager.open(PlanModal);
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Continue" }));
+		});
+		await act(async () => {
+			fireEvent.animationEnd(screen.getByTestId("plan"));
+			await Promise.resolve();
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Pay" }));
+		});
+
+		await expect(plan.afterClosed()).resolves.toBe("paid pro");
+	});
+
+	it("updates a modal replaced with itself in place", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let first!: ModalRef;
+		act(() => {
+			first = manager.open(PaymentModal, { data: { plan: "basic" } });
+		});
+		let second!: ModalRef;
+		act(() => {
+			second = first.replaceWith(PaymentModal, { data: { plan: "pro" } });
+		});
+
+		expect(second.modalId).toBe(first.modalId);
+		expect(second.getState()).toBe("open");
+		await expect(first.afterClosedWithReason()).resolves.toEqual({
+			reason: "replaced",
+			result: undefined,
+		});
+
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Pay" }));
+		});
+		await expect(second.afterClosed()).resolves.toBe("paid pro");
+		await expect(first.afterClosed()).resolves.toBe("paid pro");
+	});
+});
+
+describe("Parent and Child Modals", () => {
+	const ChildModal = ModalManager.create(() => {
+		const modal = useModal();
+		return (
+			<div data-testid="child" onAnimationEnd={modal.onAnimationEnd}>
+				<button onClick={() => modal.close("picked")} type="button">
+					Pick
+				</button>
+			</div>
+		);
+	});
+
+	const ParentModal = ModalManager.create(() => {
+		const modal = useModal();
+		const child = useModal(ChildModal);
+		const [picked, setPicked] = useState<unknown>();
+		useModalChildResult(({ result }) => setPicked(result));
+		return (
+			<div data-testid="parent" onAnimationEnd={modal.onAnimationEnd}>
+				<button onClick={() => child.open()} type="button">
+					Open child
+				</button>
+				<span data-testid="picked">{String(picked)}</span>
+			</div>
+		);
+	});
+
+	it("records modals opened from inside another as its children", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		let parent!: ModalRef;
+		act(() => {
+			parent = manager.open(ParentModal);
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Open child" }));
+		});
+		const childId = manager.getTop();
+
+		expect(manager.getOpen({ tree: true })).toEqual([
+			{
+				modalId: parent.modalId,
+				children: [{ modalId: childId, children: [] }],
+			},
+		]);
+	});
+
+	it("closes the children first when the parent closes", async () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		const closed: string[] = [];
+		manager.on("beforeClose", ({ modalId }) => closed.push(modalId));
+		const parent = manager.open(ParentModal);
+		const child = manager.open(ChildModal, { parent: parent.modalId });
+
+		act(() => {
+			parent.close("done");
+		});
+
+		expect(closed).toEqual([child.modalId, parent.modalId]);
+		await expect(child.afterClosedWithReason()).resolves.toEqual({
+			reason: "dismiss",
+			result: undefined,
+		});
+		await expect(parent.afterClosed()).resolves.toBe("done");
+	});
+
+	it("keeps the parent open when a child refuses to close", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		const GuardedChildModal = ModalManager.create(() => {
+			useModalCloseGuard(() => false);
+			return <div data-testid="child" />;
+		});
+		let parent!: ModalRef;
+		let child!: ModalRef;
+		act(() => {
+			parent = manager.open(ParentModal);
+			child = manager.open(GuardedChildModal, {
+				modalId: "guarded-child",
+				parent: parent.modalId,
+			});
+		});
+
+		act(() => {
+			parent.close();
+		});
+
+		expect(parent.getState()).toBe("open");
+		expect(child.getState()).toBe("open");
+	});
+
+	it("removes the children along with the parent", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		const parent = manager.open(ParentModal);
+		manager.open(ChildModal, { parent: parent.modalId });
+
+		act(() => {
+			manager.remove(parent.modalId);
+		});
+
+		expect(screen.queryByTestId("parent")).toBeNull();
+		expect(screen.queryByTestId("child")).toBeNull();
+		expect(manager.getOpen()).toEqual([]);
+	});
+
+	it("delivers a child's result to the parent", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+
+		act(() => {
+			manager.open(ParentModal);
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Open child" }));
+		});
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name: "Pick" }));
+		});
+
+		expect(screen.getByTestId("picked").textContent).toBe("picked");
+	});
+});
+
+describe("Hotkeys", () => {
+	const SearchModal = ModalManager.create(() => {
+		const modal = useModal();
+		return (
+			<div data-testid="search" onAnimationEnd={modal.onAnimationEnd}>
+				Search
+			</div>
+		);
+	});
+
+	const pressModK = (target: Document | Element = document) =>
+		fireEvent.keyDown(target, { key: "k", code: "KeyK", ctrlKey: true });
+
+	it("opens the modal bound to the pressed keys", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		manager.register("search", SearchModal);
+		manager.bindHotkey("mod+k", "search", { data: { query: "" } });
+
+		act(() => {
+			fireEvent.keyDown(document, { key: "k", code: "KeyK" });
+		});
+		expect(manager.getOpen()).toEqual([]);
+
+		act(() => {
+			pressModK();
+		});
+		expect(manager.getOpen()).toEqual(["search"]);
+		expect(manager.store.getSnapshot().search?.data).toMatchObject({
+			query: "",
+		});
+	});
+
+	it("ignores keydown events without a key", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		manager.register("search", SearchModal);
+		manager.bindHotkey("mod+k", "search");
+		const error = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+
+		// Autofill fires a plain Event with no key
+		act(() => {
+			document.dispatchEvent(new Event("keydown"));
+		});
+		expect(error).not.toHaveBeenCalled();
+		error.mockRestore();
+
+		act(() => {
+			pressModK();
+		});
+		expect(manager.getOpen()).toEqual(["search"]);
+	});
+
+	it("ignores the keys while typing unless allowed", () => {
+		const manager = createModalManager();
+		render(
+			<ModalProvider manager={manager}>
+				<input aria-label="Name" />
+			</ModalProvider>,
+		);
+		manager.register("search", SearchModal);
+		manager.bindHotkey("mod+k", "search");
+		const input = screen.getByRole("textbox", { name: "Name" });
+
+		act(() => {
+			pressModK(input);
+		});
+		expect(manager.getOpen()).toEqual([]);
+
+		manager.bindHotkey("mod+k", "search", { allowInInputs: true });
+		act(() => {
+			pressModK(input);
+		});
+		expect(manager.getOpen()).toEqual(["search"]);
+	});
+
+	it("only fires within its scope", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		manager.register("search", SearchModal);
+		manager.register("help", SearchModal);
+		manager.register("other", SearchModal);
+		manager.bindHotkey("mod+k", "search", { scope: "noModal" });
+		manager.bindHotkey("shift+?", "help", { scope: { topmost: "search" } });
+		const pressHelp = () =>
+			fireEvent.keyDown(document, { key: "?", shiftKey: true });
+
+		act(() => {
+			manager.open("other");
+		});
+		act(() => {
+			pressModK();
+			pressHelp();
+		});
+		expect(manager.getOpen()).toEqual(["other"]);
+
+		act(() => {
+			manager.remove("other");
+		});
+		act(() => {
+			pressModK();
+		});
+		act(() => {
+			pressHelp();
+		});
+		expect(manager.getOpen()).toEqual(["search", "help"]);
+	});
+
+	it("stops firing once unbound or unregistered", () => {
+		const manager = createModalManager();
+		render(<ModalProvider manager={manager} />);
+		manager.register("search", SearchModal);
+		const unbind = manager.bindHotkey("mod+k", "search");
+
+		unbind();
+		act(() => {
+			pressModK();
+		});
+		expect(manager.getOpen()).toEqual([]);
+
+		manager.bindHotkey("mod+k", "search");
+		manager.unregister("search");
+		manager.register("search", SearchModal);
+		act(() => {
+			pressModK();
+		});
+		expect(manager.getOpen()).toEqual([]);
+	});
+
+	it("throws for a modal that is not registered", () => {
+		const manager = createModalManager();
+		expect(() => manager.bindHotkey("mod+k", "missing")).toThrow(
+			/not registered/,
+		);
+	});
+});
+
+describe("Focus Restoration", () => {
+	const FocusModal = ModalManager.create<{ label?: string }>(
+		({ label = "Inside" }) => {
+			const modal = useModal();
+			return (
+				<div data-testid={label} onAnimationEnd={modal.onAnimationEnd}>
+					<button type="button">{label}</button>
+				</div>
+			);
+		},
+	);
+
+	/** Close a modal and let its exit animation finish */
+	const closeAndFinish = async (ref: ModalRef, label: string) => {
+		await act(async () => {
+			ref.close();
+			await Promise.resolve();
+		});
+		act(() => {
+			fireEvent.animationEnd(screen.getByTestId(label));
+		});
+	};
+
+	const renderWithTrigger = () => {
+		const manager = createModalManager();
+		render(
+			<ModalProvider manager={manager}>
+				<button type="button">Trigger</button>
+				<button type="button">Elsewhere</button>
+			</ModalProvider>,
+		);
+		const trigger = screen.getByRole("button", { name: "Trigger" });
+		trigger.focus();
+		return { manager, trigger };
+	};
+
+	it("returns focus to the element focused when the modal opened", async () => {
+		const { manager, trigger } = renderWithTrigger();
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(FocusModal, { modalId: "first" });
+		});
+		screen.getByRole("button", { name: "Inside" }).focus();
+
+		await closeAndFinish(ref, "Inside");
+		expect(document.activeElement).toBe(trigger);
+	});
+
+	it("returns focus to the parent modal when a nested one closes", async () => {
+		const { manager } = renderWithTrigger();
+
+		act(() => {
+			manager.open(FocusModal, { modalId: "first" });
+		});
+		const inside = screen.getByRole("button", { name: "Inside" });
+		inside.focus();
+		let nested!: ModalRef;
+		act(() => {
+			nested = manager.open(FocusModal, {
+				modalId: "nested",
+				data: { label: "Nested" },
+			});
+		});
+		screen.getByRole("button", { name: "Nested" }).focus();
+
+		await closeAndFinish(nested, "Nested");
+		expect(document.activeElement).toBe(inside);
+	});
+
+	it("leaves focus in the modal on top when one below closes", async () => {
+		const { manager, trigger } = renderWithTrigger();
+
+		let first!: ModalRef;
+		act(() => {
+			first = manager.open(FocusModal, { modalId: "first" });
+		});
+		screen.getByRole("button", { name: "Inside" }).focus();
+		let nested!: ModalRef;
+		act(() => {
+			nested = manager.open(FocusModal, {
+				modalId: "nested",
+				data: { label: "Nested" },
+			});
+		});
+		const nestedButton = screen.getByRole("button", { name: "Nested" });
+		nestedButton.focus();
+
+		await closeAndFinish(first, "Inside");
+		expect(document.activeElement).toBe(nestedButton);
+
+		await closeAndFinish(nested, "Nested");
+		expect(document.activeElement).toBe(trigger);
+	});
+
+	it("focuses the given returnFocus element or leaves focus alone", async () => {
+		const { manager } = renderWithTrigger();
+		const elsewhere = screen.getByRole("button", { name: "Elsewhere" });
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(FocusModal, {
+				modalId: "first",
+				returnFocus: elsewhere,
+			});
+		});
+		await closeAndFinish(ref, "Inside");
+		expect(document.activeElement).toBe(elsewhere);
+
+		act(() => {
+			ref = manager.open(FocusModal, {
+				modalId: "second",
+				returnFocus: false,
+			});
+		});
+		const inside = screen.getByRole("button", { name: "Inside" });
+		inside.focus();
+		await closeAndFinish(ref, "Inside");
+		expect(document.activeElement).toBe(document.body);
+	});
+
+	it("returns focus when a popover adapter closes without an animation", () => {
+		const PopoverModal = ModalManager.create(() => {
+			const popover = shadcnUiPopover(useModal());
+			return (
+				<button onClick={() => popover.onOpenChange(false)} type="button">
+					Dismiss
+				</button>
+			);
+		});
+		const { manager, trigger } = renderWithTrigger();
+
+		let ref!: ModalRef;
+		act(() => {
+			ref = manager.open(PopoverModal, { modalId: "popover" });
+		});
+		const dismiss = screen.getByRole("button", { name: "Dismiss" });
+		dismiss.focus();
+		act(() => {
+			fireEvent.click(dismiss);
+		});
+
+		expect(ref.getState()).toBe("closed");
+		expect(screen.queryByRole("button", { name: "Dismiss" })).toBeNull();
+		expect(document.activeElement).toBe(trigger);
+	});
+});
+
+describe("Dialogs", () => {
+	const renderManager = (renderer?: ModalDialogRenderer) => {
+		const manager = createModalManager();
+		render(<ModalProvider dialogRenderer={renderer} manager={manager} />);
+		return manager;
+	};
+
+	const click = (name: string) => {
+		act(() => {
+			fireEvent.click(screen.getByRole("button", { name }));
+		});
+	};
+
+	it("resolves confirm() with whether the user confirmed", async () => {
+		const manager = renderManager();
+
+		let confirmed!: Promise<boolean>;
+		act(() => {
+			confirmed = manager.confirm({ title: "Delete?", confirmLabel: "Delete" });
+		});
+		expect(screen.getByRole("alertdialog", { name: "Delete?" })).toBeTruthy();
+		click("Delete");
+		await expect(confirmed).resolves.toBe(true);
+		expect(screen.queryByRole("alertdialog")).toBeNull();
+
+		let cancelled!: Promise<boolean>;
+		act(() => {
+			cancelled = manager.confirm({ title: "Delete?" });
+		});
+		click("Cancel");
+		await expect(cancelled).resolves.toBe(false);
+	});
+
+	it("resolves prompt() with the entered text, or null", async () => {
+		const manager = renderManager();
+
+		let name!: Promise<string | null>;
+		act(() => {
+			name = manager.prompt({ title: "Rename", defaultValue: "draft" });
+		});
+		const input = screen.getByRole("textbox");
+		expect((input as HTMLInputElement).value).toBe("draft");
+		act(() => {
+			fireEvent.change(input, { target: { value: "final" } });
+		});
+		click("OK");
+		await expect(name).resolves.toBe("final");
+
+		let dismissed!: Promise<string | null>;
+		act(() => {
+			dismissed = manager.prompt({ title: "Rename" });
+		});
+		click("Cancel");
+		await expect(dismissed).resolves.toBeNull();
+	});
+
+	it("shows alert() with a single button", async () => {
+		const manager = renderManager();
+
+		let done!: Promise<void>;
+		act(() => {
+			done = manager.alert({ title: "Saved" });
+		});
+		expect(screen.getAllByRole("button")).toHaveLength(1);
+		click("OK");
+		await expect(done).resolves.toBeUndefined();
+	});
+
+	it("waits for an async onConfirm and stays open if it fails", async () => {
+		const manager = renderManager();
+		let finish!: () => void;
+		let fail!: (error: Error) => void;
+		const onConfirm = vi
+			.fn<() => Promise<void>>()
+			.mockImplementationOnce(
+				() =>
+					new Promise((_resolve, reject) => {
+						fail = reject;
+					}),
+			)
+			.mockImplementationOnce(
+				() =>
+					new Promise((resolve) => {
+						finish = resolve;
+					}),
+			);
+
+		let confirmed!: Promise<boolean>;
+		act(() => {
+			confirmed = manager.confirm({ title: "Archive?", onConfirm });
+		});
+
+		click("OK");
+		expect(screen.getByRole("button", { name: "OK" })).toHaveProperty(
+			"disabled",
+			true,
+		);
+		await act(async () => {
+			fail(new Error("Network error"));
+			await Promise.resolve();
+		});
+		expect(screen.getByRole("alert").textContent).toBe("Network error");
+		expect(screen.getByRole("alertdialog")).toBeTruthy();
+
+		click("OK");
+		await act(async () => {
+			finish();
+			await Promise.resolve();
+		});
+		await expect(confirmed).resolves.toBe(true);
+		expect(onConfirm).toHaveBeenCalledTimes(2);
+	});
+
+	it("renders through the provider's dialogRenderer", async () => {
+		const renderer = vi.fn((props: ModalDialogRendererProps) => (
+			<button onClick={props.confirm} type="button">
+				{props.confirmLabel}
+			</button>
+		));
+		const manager = renderManager(renderer);
+
+		let confirmed!: Promise<boolean>;
+		act(() => {
+			confirmed = manager.confirm({
+				title: "Delete project?",
+				destructive: true,
+				confirmLabel: "Delete",
+			});
+		});
+		expect(renderer).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				kind: "confirm",
+				title: "Delete project?",
+				destructive: true,
+				cancelLabel: "Cancel",
+				loading: false,
+			}),
+			undefined,
+		);
+		click("Delete");
+		await expect(confirmed).resolves.toBe(true);
+	});
+
+	it("builds a renderer from shadcn AlertDialog parts", async () => {
+		const Part = ({ children }: { children?: ReactNode }) => (
+			<div>{children}</div>
+		);
+		const Button: ShadcnAlertDialogParts["AlertDialogAction"] = ({
+			children,
+			...props
+		}) => (
+			<button type="button" {...props}>
+				{children}
+			</button>
+		);
+		const parts: ShadcnAlertDialogParts = {
+			AlertDialog: ({ open, children }) => (open ? children : null),
+			AlertDialogContent: ({ children }) => (
+				<div role="alertdialog">{children}</div>
+			),
+			AlertDialogHeader: Part,
+			AlertDialogFooter: Part,
+			AlertDialogTitle: Part,
+			AlertDialogDescription: Part,
+			AlertDialogAction: Button,
+			AlertDialogCancel: Button,
+		};
+		const manager = renderManager(
+			createShadcnDialogRenderer(parts, { destructiveClassName: "danger" }),
+		);
+
+		let confirmed!: Promise<boolean>;
+		act(() => {
+			confirmed = manager.confirm({
+				title: "Delete?",
+				description: "This can't be undone.",
+				destructive: true,
+			});
+		});
+		expect(screen.getByText("This can't be undone.")).toBeTruthy();
+		expect(screen.getByRole("button", { name: "OK" }).className).toBe("danger");
+		click("OK");
+		await expect(confirmed).resolves.toBe(true);
+	});
+});
+
+describe("Scoped Managers", () => {
+	it("keeps two providers on one page isolated", async () => {
+		const first = createModalManager();
+		const second = createModalManager();
+
+		render(
+			<>
+				<ModalProvider manager={first} />
+				<ModalProvider manager={second} />
+			</>,
+		);
+
+		act(() => {
+			first.open(HocTestModal, { data: { name: "First" } });
+		});
+
+		expect(screen.getAllByTestId("modal-content")).toHaveLength(1);
+		expect(first.getOpen()).toHaveLength(1);
+		expect(second.getOpen()).toHaveLength(0);
+		expect(ModalManager.getOpen()).toHaveLength(0);
+
+		act(() => {
+			second.open(HocTestModal, { data: { name: "Second" } });
+		});
+
+		expect(
+			screen.getAllByTestId("modal-content").map((el) => el.textContent),
+		).toEqual(["First", "Second"]);
+
+		act(() => {
+			first.close(HocTestModal);
+		});
+
+		await waitForElementToBeRemoved(() =>
+			screen.queryByText("First", { selector: "span" }),
+		);
+		expect(screen.getByTestId("modal-content").textContent).toBe("Second");
+	});
+
+	it("scopes the registry to the manager", () => {
+		const scoped = createModalManager();
+		scoped.register("scoped-modal", HocTestModal);
+
+		expect(MODAL_REGISTRY["scoped-modal"]).toBeUndefined();
+		expect(scoped.api.core.registry["scoped-modal"]?.comp).toBe(HocTestModal);
+	});
+
+	it("routes useModal controls to the provider's manager", () => {
+		const scoped = createModalManager();
+		let modalHandler!: ReturnType<typeof useModal>;
+
+		function Trigger() {
+			modalHandler = useModal(HocTestModal);
+			return null;
+		}
+
+		render(
+			<ModalProvider manager={scoped}>
+				<Trigger />
+			</ModalProvider>,
+		);
+
+		act(() => {
+			modalHandler.open({ name: "Scoped" });
+		});
+
+		expect(screen.getByTestId("modal-content").textContent).toBe("Scoped");
+		expect(scoped.hasOpen()).toBe(true);
+		expect(ModalManager.hasOpen()).toBe(false);
+	});
+});
+
+describe("ModalProvider", () => {
+	// Leave the default manager dispatching into its own store
+	afterEach(() => {
+		setDispatch(defaultCore.store.dispatch);
+	});
+
+	it("shows modals opened before the provider mounts once it renders", () => {
+		let ref!: ModalRef;
+		expect(() => {
+			ref = ModalManager.open(HocTestModal, { data: { name: "Early" } });
+		}).not.toThrow();
+		expect(ref.getState()).toBe("open");
+		expect(ModalManager.getOpen()).toEqual([ref.modalId]);
+
+		render(<ModalProvider />);
+
+		expect(screen.getByTestId("modal-content").textContent).toBe("Early");
 	});
 
 	it("renders children correctly", () => {
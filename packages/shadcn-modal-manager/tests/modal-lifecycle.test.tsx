@@ -10,7 +10,8 @@
 import { render, renderHook, screen } from "@testing-library/react";
 import type { ComponentType } from "react";
 import { useContext } from "react";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ModalDismissedError, markClosed, notifyOpened } from "../src/api";
 import {
 	ModalContext,
 	ModalDefinition,
@@ -25,6 +26,7 @@ import {
 	cleanupCallbacks,
 	getModal,
 	getModalId,
+	getModalStack,
 	getUid,
 	hideModalCallbacks,
 	initialState,
@@ -38,7 +40,8 @@ import {
 } from "../src/core";
 import { useModal, useModalConfig, useModalData } from "../src/hooks";
 import { ModalManager } from "../src/modal-manager";
-import type { ModalStore } from "../src/types";
+import { createModalStore } from "../src/store";
+import type { ModalEventName, ModalMiddleware, ModalStore } from "../src/types";
 
 const MODAL_ID_PATTERN = /^_modal_\d+$/;
 const noop = () => undefined;
@@ -106,6 +109,29 @@ describe("Core State Management", () => {
 			expect(newState.modal2).toBeDefined();
 		});
 
+		it("open action records depth and keeps it on re-dispatch", () => {
+			const opened = reducer(initialState, actions.open("modal1", {}, 2));
+			const updated = reducer(opened, actions.open("modal1", { foo: "bar" }));
+
+			expect(opened.modal1?.depth).toBe(2);
+			expect(updated.modal1?.depth).toBe(2);
+		});
+
+		it("getModalStack orders open modals by depth", () => {
+			const state: ModalStore = {
+				top: { modalId: "top", isOpen: true, depth: 2 },
+				closed: { modalId: "closed", isOpen: false, depth: 3 },
+				bottom: { modalId: "bottom", isOpen: true, depth: 0 },
+				pending: { modalId: "pending", delayOpen: true, depth: 1 },
+			};
+
+			expect(getModalStack(state).map((entry) => entry.modalId)).toEqual([
+				"bottom",
+				"pending",
+				"top",
+			]);
+		});
+
 		it("setFlags merges flags into existing modal", () => {
 			const state: ModalStore = {
 				modal1: { modalId: "modal1", isOpen: true },
@@ -130,6 +156,50 @@ describe("Core State Management", () => {
 		});
 	});
 
+	describe("Store", () => {
+		it("applies actions through the reducer", () => {
+			const store = createModalStore(reducer, initialState);
+
+			store.dispatch(actions.open("modal1", { foo: "bar" }));
+
+			expect(store.getSnapshot().modal1?.data).toEqual({ foo: "bar" });
+			expect(store.getServerSnapshot()).toBe(store.getSnapshot());
+		});
+
+		it("notifies subscribers only when state changes", () => {
+			const store = createModalStore(reducer, initialState);
+			const listener = vi.fn();
+			const unsubscribe = store.subscribe(listener);
+
+			store.dispatch(actions.close("nonexistent"));
+			expect(listener).not.toHaveBeenCalled();
+
+			store.dispatch(actions.open("modal1"));
+			expect(listener).toHaveBeenCalledTimes(1);
+
+			unsubscribe();
+			store.dispatch(actions.remove("modal1"));
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		it("setState replaces the snapshot", () => {
+			const store = createModalStore(reducer, initialState);
+			const next: ModalStore = { modal1: { modalId: "modal1" } };
+
+			store.setState(next);
+
+			expect(store.getSnapshot()).toBe(next);
+		});
+
+		it("backs the default manager without a provider", () => {
+			ModalManager.open("service-modal", { data: { source: "service" } });
+
+			expect(ModalManager.store.getSnapshot()["service-modal"]?.data).toEqual(
+				expect.objectContaining({ source: "service" }),
+			);
+		});
+	});
+
 	describe("Registry", () => {
 		it("register adds component to registry", () => {
 			const Component = () => null;
@@ -343,6 +413,712 @@ describe("API Functions", () => {
 		});
 	});
 
+	describe("Close guards", () => {
+		const hideCalls = () =>
+			mockDispatch.mock.calls.filter(
+				(call) => call[0].type === "shadcn-modal-manager/hide",
+			);
+
+		it("canClose returning false keeps the modal open", () => {
+			const canClose = vi.fn(() => false);
+			const ref = ModalManager.open("form", { canClose });
+
+			ModalManager.close("form");
+			ref.close("saved");
+
+			expect(hideCalls()).toHaveLength(0);
+			expect(ref.getState()).toBe("open");
+			expect(canClose).toHaveBeenCalledWith({
+				modalId: "form",
+				result: undefined,
+				reason: "dismiss",
+			});
+			expect(canClose).toHaveBeenLastCalledWith({
+				modalId: "form",
+				result: "saved",
+				reason: "result",
+			});
+		});
+
+		it("close() resolves to false when a guard refuses", async () => {
+			ModalManager.open("form", { canClose: () => false });
+
+			await expect(ModalManager.close("form")).resolves.toBe(false);
+		});
+
+		it("close() resolves to true once the close animation completed", async () => {
+			ModalManager.open("form", { canClose: () => true });
+
+			const closing = ModalManager.close("form");
+			markClosed("form");
+			hideModalCallbacks.form?.resolve(undefined);
+
+			await expect(closing).resolves.toBe(true);
+		});
+
+		it("closes synchronously when the guard allows it", async () => {
+			const ref = ModalManager.open("form", { canClose: () => true });
+
+			ref.close("saved");
+
+			expect(hideCalls()).toHaveLength(1);
+			await expect(ref.afterClosed()).resolves.toBe("saved");
+		});
+
+		it("waits for async guards before closing", async () => {
+			let allow!: (value: boolean) => void;
+			const ref = ModalManager.open("form", {
+				canClose: () =>
+					new Promise<boolean>((resolve) => {
+						allow = resolve;
+					}),
+			});
+
+			ref.close("saved");
+			ref.close("saved");
+			expect(hideCalls()).toHaveLength(0);
+
+			allow(true);
+			await expect(ref.afterClosed()).resolves.toBe("saved");
+			expect(hideCalls()).toHaveLength(1);
+		});
+
+		it("treats a throwing guard as a refusal", () => {
+			const errorSpy = vi.spyOn(console, "error").mockImplementation(noop);
+			const ref = ModalManager.open("form", {
+				canClose: () => {
+					throw new Error("boom");
+				},
+			});
+
+			ref.close();
+
+			expect(ref.getState()).toBe("open");
+			expect(errorSpy).toHaveBeenCalled();
+			errorSpy.mockRestore();
+		});
+
+		it("closeAll reports modals that refused", async () => {
+			ModalManager.open("dirty", { canClose: () => false });
+			ModalManager.open("clean");
+
+			const pending = ModalManager.closeAll();
+			markClosed("clean");
+			ModalManager.api.core.hideModalCallbacks.clean?.resolve(undefined);
+
+			await expect(pending).resolves.toEqual({
+				closed: ["clean"],
+				refused: ["dirty"],
+			});
+			expect(ModalManager.getOpen()).toEqual(["dirty"]);
+		});
+
+		it("remove bypasses close guards", () => {
+			const ref = ModalManager.open("form", { canClose: () => false });
+
+			ModalManager.remove("form");
+
+			expect(ref.getState()).toBe("closed");
+		});
+	});
+
+	describe("Close reasons", () => {
+		it("reports the result and its reason", async () => {
+			const ref = ModalManager.open("form");
+
+			ref.close("saved");
+
+			await expect(ref.afterClosedWithReason()).resolves.toEqual({
+				reason: "result",
+				result: "saved",
+			});
+		});
+
+		it("resolves dismissals with undefined by default", async () => {
+			const ref = ModalManager.open("form");
+
+			ModalManager.close("form");
+
+			await expect(ref.afterClosed()).resolves.toBeUndefined();
+			await expect(ref.afterClosedWithReason()).resolves.toEqual({
+				reason: "dismiss",
+				result: undefined,
+			});
+		});
+
+		it("rejects dismissals with dismissBehavior 'reject'", async () => {
+			const ref = ModalManager.open("form", { dismissBehavior: "reject" });
+
+			ModalManager.close("form");
+
+			const error = await ref.afterClosed().catch((e: unknown) => e);
+			expect(error).toBeInstanceOf(ModalDismissedError);
+			expect(error).toMatchObject({ modalId: "form", reason: "dismiss" });
+			await expect(ref.beforeClosed()).rejects.toBe(error);
+			await expect(ref.afterClosedWithReason()).resolves.toEqual({
+				reason: "dismiss",
+				result: undefined,
+			});
+		});
+
+		it("doesn't raise unhandled rejections for refs nobody reads", async () => {
+			const unhandled = vi.fn();
+			process.on("unhandledRejection", unhandled);
+
+			ModalManager.open("form", { dismissBehavior: "reject" });
+			ModalManager.close("form");
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			process.off("unhandledRejection", unhandled);
+			expect(unhandled).not.toHaveBeenCalled();
+		});
+
+		it("still resolves results with dismissBehavior 'reject'", async () => {
+			const ref = ModalManager.open("form", { dismissBehavior: "reject" });
+
+			ref.close(undefined);
+
+			await expect(ref.afterClosed()).resolves.toBeUndefined();
+		});
+
+		it("reports remove and closeAll", async () => {
+			const removed = ModalManager.open("removed");
+			const closed = ModalManager.open("closed");
+
+			ModalManager.remove("removed");
+			ModalManager.closeAll();
+
+			await expect(removed.afterClosedWithReason()).resolves.toMatchObject({
+				reason: "remove",
+			});
+			await expect(closed.afterClosedWithReason()).resolves.toMatchObject({
+				reason: "closeAll",
+			});
+		});
+	});
+
+	describe("Abort and timeout", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("closes the modal when its signal aborts", async () => {
+			const controller = new AbortController();
+			const ref = ModalManager.open("form", {
+				signal: controller.signal,
+				canClose: () => false,
+			});
+
+			controller.abort();
+
+			expect(ref.getState()).toBe("closing");
+			await expect(ref.afterOpened()).resolves.toBeUndefined();
+			await expect(ref.afterClosedWithReason()).resolves.toEqual({
+				reason: "abort",
+				result: undefined,
+			});
+		});
+
+		it("never shows a modal whose signal already aborted", async () => {
+			const ref = ModalManager.open("form", { signal: AbortSignal.abort() });
+
+			expect(mockDispatch).not.toHaveBeenCalledWith(
+				expect.objectContaining({ type: "shadcn-modal-manager/hide" }),
+			);
+			expect(ref.getState()).toBe("closed");
+			await expect(ref.afterClosedWithReason()).resolves.toMatchObject({
+				reason: "abort",
+			});
+		});
+
+		it("stops listening once the modal closes", () => {
+			const controller = new AbortController();
+			const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+			const ref = ModalManager.open("form", { signal: controller.signal });
+
+			ref.close("saved");
+
+			expect(removeListener).toHaveBeenCalledWith(
+				"abort",
+				expect.any(Function),
+			);
+		});
+
+		it("closes the modal after timeoutMs", async () => {
+			vi.useFakeTimers();
+			const ref = ModalManager.open("toast", { timeoutMs: 3000 });
+
+			vi.advanceTimersByTime(2999);
+			expect(ref.getState()).toBe("open");
+
+			vi.advanceTimersByTime(1);
+			expect(ref.getState()).toBe("closing");
+			await expect(ref.afterClosedWithReason()).resolves.toMatchObject({
+				reason: "timeout",
+			});
+		});
+
+		it("starts the timeout once a queued modal is shown", () => {
+			vi.useFakeTimers();
+			ModalManager.open("first", { queue: "toasts" });
+			const second = ModalManager.open("second", {
+				queue: "toasts",
+				timeoutMs: 1000,
+			});
+
+			vi.advanceTimersByTime(5000);
+			expect(second.getState()).toBe("queued");
+
+			ModalManager.close("first");
+			markClosed("first");
+			vi.advanceTimersByTime(1000);
+			expect(second.getState()).toBe("closing");
+		});
+
+		it("rejects with the reason when dismissBehavior is 'reject'", async () => {
+			const controller = new AbortController();
+			const ref = ModalManager.open("form", {
+				signal: controller.signal,
+				dismissBehavior: "reject",
+			});
+
+			controller.abort();
+
+			await expect(ref.afterClosed()).rejects.toMatchObject({
+				reason: "abort",
+			});
+		});
+	});
+
+	describe("Queue mode", () => {
+		const shownIds = () =>
+			mockDispatch.mock.calls
+				.filter((call) => call[0].type === "shadcn-modal-manager/show")
+				.map((call) => call[0].payload.modalId);
+
+		it("queues opens on a busy channel", () => {
+			const first = ModalManager.open("announcement", { queue: "global" });
+			const second = ModalManager.open("consent", { queue: "global" });
+
+			expect(first.getState()).toBe("open");
+			expect(second.getState()).toBe("queued");
+			expect(shownIds()).toEqual(["announcement"]);
+			expect(ModalManager.getOpen()).toEqual(["announcement"]);
+		});
+
+		it("opens the next modal once the previous one is marked closed", () => {
+			ModalManager.open("announcement", { queue: "global" });
+			const second = ModalManager.open("consent", { queue: "global" });
+
+			ModalManager.close("announcement");
+			expect(second.getState()).toBe("queued");
+
+			markClosed("announcement");
+			expect(second.getState()).toBe("open");
+			expect(shownIds()).toEqual(["announcement", "consent"]);
+		});
+
+		it("orders waiting modals by priority, then arrival", () => {
+			ModalManager.open("first", { queue: "global" });
+			ModalManager.open("low", { queue: "global" });
+			ModalManager.open("high", { queue: "global", priority: 10 });
+			ModalManager.open("low-2", { queue: "global" });
+
+			for (const id of ["first", "high", "low"]) {
+				markClosed(id);
+			}
+
+			expect(shownIds()).toEqual(["first", "high", "low", "low-2"]);
+		});
+
+		it("re-opening the active modal of a channel keeps it open", () => {
+			ModalManager.open("announcement", { queue: "global" });
+			const again = ModalManager.open("announcement", { queue: "global" });
+
+			expect(again.getState()).toBe("open");
+			expect(ModalManager.getOpen()).toEqual(["announcement"]);
+			expect(ModalManager.hasOpen()).toBe(true);
+
+			ModalManager.close("announcement");
+			expect(again.getState()).toBe("closing");
+		});
+
+		it("keeps channels independent", () => {
+			ModalManager.open("tips", { queue: "tips" });
+			const consent = ModalManager.open("consent", { queue: "legal" });
+
+			expect(consent.getState()).toBe("open");
+		});
+
+		it("closing a queued modal drops it and resolves its promises", async () => {
+			ModalManager.open("announcement", { queue: "global" });
+			const queued = ModalManager.open("consent", { queue: "global" });
+
+			queued.close("skipped");
+
+			await expect(queued.afterClosed()).resolves.toBe("skipped");
+			expect(queued.getState()).toBe("closed");
+
+			markClosed("announcement");
+			expect(shownIds()).toEqual(["announcement"]);
+		});
+
+		it("queued modals receive data updated while waiting", () => {
+			ModalManager.open("announcement", { queue: "global" });
+			const queued = ModalManager.open<unknown, { step: number }>("tips", {
+				queue: "global",
+				data: { step: 1 },
+			});
+
+			queued.updateData({ step: 2 });
+			expect(shownIds()).toEqual(["announcement"]);
+
+			markClosed("announcement");
+			const showCall = mockDispatch.mock.calls.find(
+				(call) =>
+					call[0].type === "shadcn-modal-manager/show" &&
+					call[0].payload.modalId === "tips",
+			);
+			expect(showCall?.[0].payload.data).toEqual(
+				expect.objectContaining({ step: 2 }),
+			);
+		});
+
+		it("closeAll drops queued modals", async () => {
+			ModalManager.open("announcement", { queue: "global" });
+			const queued = ModalManager.open("consent", { queue: "global" });
+
+			ModalManager.closeAll();
+			markClosed("announcement");
+
+			await expect(queued.afterClosed()).resolves.toBeUndefined();
+			expect(shownIds()).toEqual(["announcement"]);
+		});
+	});
+
+	describe("Multi-instance modals", () => {
+		it("allocates a fresh ID per open() that points at the registry entry", () => {
+			const first = ModalManager.open("toast", { instance: "multiple" });
+			const second = ModalManager.open("toast", { instance: "multiple" });
+
+			expect(first.modalId).not.toBe(second.modalId);
+			expect(mockDispatch).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: "shadcn-modal-manager/show",
+					payload: expect.objectContaining({
+						modalId: second.modalId,
+						instanceOf: "toast",
+					}),
+				}),
+			);
+		});
+
+		it("keeps each instance's promises separate", async () => {
+			const first = ModalManager.open("toast", { instance: "multiple" });
+			const second = ModalManager.open("toast", { instance: "multiple" });
+
+			first.close("first");
+			second.close("second");
+
+			await expect(first.afterClosed()).resolves.toBe("first");
+			await expect(second.afterClosed()).resolves.toBe("second");
+		});
+
+		it("lists instances and forgets removed ones", () => {
+			const single = ModalManager.open("toast");
+			const instance = ModalManager.open("toast", { instance: "multiple" });
+			ModalManager.open("other", { instance: "multiple" });
+
+			expect(ModalManager.getInstances("toast")).toEqual([
+				single.modalId,
+				instance.modalId,
+			]);
+
+			ModalManager.remove(instance.modalId);
+
+			expect(ModalManager.getInstances("toast")).toEqual([single.modalId]);
+		});
+
+		it("reducer keeps instanceOf on later updates", () => {
+			const opened = reducer(
+				{},
+				actions.open("_modal_1", { text: "a" }, 0, "toast"),
+			);
+			const updated = reducer(opened, actions.open("_modal_1", { text: "b" }));
+
+			expect(updated._modal_1?.instanceOf).toBe("toast");
+		});
+	});
+
+	describe("Middleware", () => {
+		const removers: (() => void)[] = [];
+		const use = (middleware: ModalMiddleware) => {
+			removers.push(ModalManager.use(middleware));
+		};
+
+		afterEach(() => {
+			for (const remove of removers.splice(0)) {
+				remove();
+			}
+		});
+
+		const shown = () =>
+			mockDispatch.mock.calls.filter(
+				([action]) => action.type === "shadcn-modal-manager/show",
+			);
+
+		it("lets open middleware change the data", () => {
+			use((context) => {
+				if (context.type === "open") {
+					context.data = { ...context.data, source: "middleware" };
+				}
+			});
+
+			ModalManager.open("test-modal", { data: { id: 1 } });
+
+			expect(shown()[0]?.[0].payload.data).toMatchObject({
+				id: 1,
+				source: "middleware",
+			});
+		});
+
+		it("cancels an open when a middleware returns false", async () => {
+			use((context) => context.type !== "open");
+
+			const ref = ModalManager.open("test-modal");
+
+			expect(shown()).toHaveLength(0);
+			expect(ref.getState()).toBe("closed");
+			await expect(ref.afterClosedWithReason()).resolves.toEqual({
+				reason: "cancelled",
+				result: undefined,
+			});
+		});
+
+		it("waits for async middleware before showing", async () => {
+			let release!: () => void;
+			use(
+				() =>
+					new Promise<void>((resolve) => {
+						release = resolve;
+					}),
+			);
+			const second = vi.fn<ModalMiddleware>();
+			use(second);
+
+			const ref = ModalManager.open("test-modal");
+			expect(ref.getState()).toBe("queued");
+			expect(second).not.toHaveBeenCalled();
+
+			release();
+			await vi.waitFor(() => expect(ref.getState()).toBe("open"));
+			expect(second).toHaveBeenCalledOnce();
+			expect(shown()).toHaveLength(1);
+		});
+
+		it("drops an open closed while middleware is pending", async () => {
+			let release!: () => void;
+			use(
+				() =>
+					new Promise<void>((resolve) => {
+						release = resolve;
+					}),
+			);
+
+			const ref = ModalManager.open("test-modal");
+			ref.close("early");
+			release();
+
+			await expect(ref.afterClosed()).resolves.toBe("early");
+			expect(shown()).toHaveLength(0);
+		});
+
+		it("sees close, dismiss and remove with their details", () => {
+			const seen = vi.fn<ModalMiddleware>();
+			const ref = ModalManager.open("test-modal", { data: { id: 1 } });
+			ModalManager.open("other-modal");
+			use(seen);
+
+			ref.close(42);
+			ModalManager.close("other-modal");
+			ModalManager.remove("test-modal");
+
+			expect(seen.mock.calls.map(([context]) => context)).toEqual([
+				expect.objectContaining({
+					type: "close",
+					modalId: "test-modal",
+					result: 42,
+					reason: "result",
+				}),
+				expect.objectContaining({
+					type: "dismiss",
+					modalId: "other-modal",
+					reason: "dismiss",
+				}),
+				expect.objectContaining({ type: "remove", modalId: "test-modal" }),
+			]);
+		});
+
+		it("keeps a modal open when close middleware cancels", async () => {
+			const ref = ModalManager.open("test-modal");
+			use((context) => context.type !== "dismiss");
+
+			ModalManager.close("test-modal");
+			expect(ref.getState()).toBe("open");
+
+			ref.close("saved");
+			await expect(ref.afterClosed()).resolves.toBe("saved");
+		});
+
+		it("treats a throwing middleware as a cancellation", () => {
+			const error = vi.spyOn(console, "error").mockImplementation(noop);
+			use(() => {
+				throw new Error("denied");
+			});
+
+			const ref = ModalManager.open("test-modal");
+
+			expect(ref.getState()).toBe("closed");
+			expect(error).toHaveBeenCalledOnce();
+			error.mockRestore();
+		});
+	});
+
+	describe("Events", () => {
+		const removers: (() => void)[] = [];
+		const listen = (event: ModalEventName) => {
+			const listener = vi.fn();
+			removers.push(ModalManager.on(event, listener));
+			return listener;
+		};
+
+		afterEach(() => {
+			for (const remove of removers.splice(0)) {
+				remove();
+			}
+		});
+
+		it("reports a modal's lifecycle in order", () => {
+			const events: string[] = [];
+			for (const event of [
+				"open",
+				"opened",
+				"beforeClose",
+				"closed",
+				"removed",
+			] as const) {
+				removers.push(ModalManager.on(event, () => events.push(event)));
+			}
+
+			const ref = ModalManager.open("test-modal");
+			notifyOpened("test-modal");
+			ref.close("saved");
+			markClosed("test-modal");
+			ModalManager.remove("test-modal");
+
+			expect(events).toEqual([
+				"open",
+				"opened",
+				"beforeClose",
+				"closed",
+				"removed",
+			]);
+		});
+
+		it("passes the data, result and reason", () => {
+			const open = listen("open");
+			const beforeClose = listen("beforeClose");
+			const closed = listen("closed");
+
+			const ref = ModalManager.open("test-modal", { data: { id: 1 } });
+			ref.close("saved");
+			markClosed("test-modal");
+
+			expect(open).toHaveBeenCalledWith({
+				modalId: "test-modal",
+				data: { id: 1 },
+			});
+			const outcome = {
+				modalId: "test-modal",
+				result: "saved",
+				reason: "result",
+			};
+			expect(beforeClose).toHaveBeenCalledWith(outcome);
+			expect(closed).toHaveBeenCalledWith(outcome);
+		});
+
+		it("reports data changes", () => {
+			const dataChanged = listen("dataChanged");
+
+			const ref = ModalManager.open<{ step: number }>("test-modal", {
+				data: { step: 1 },
+			});
+			ref.updateData({ step: 2 });
+
+			expect(dataChanged).toHaveBeenCalledWith({
+				modalId: "test-modal",
+				data: { step: 2 },
+			});
+		});
+
+		it("reports the reason a modal was removed", () => {
+			const beforeClose = listen("beforeClose");
+			const removed = listen("removed");
+
+			ModalManager.open("test-modal");
+			ModalManager.remove("test-modal");
+
+			expect(beforeClose).toHaveBeenCalledWith({
+				modalId: "test-modal",
+				result: undefined,
+				reason: "remove",
+			});
+			expect(removed).toHaveBeenCalledWith({
+				modalId: "test-modal",
+				reason: "remove",
+			});
+		});
+
+		it("skips modals that were never shown", () => {
+			const open = listen("open");
+			const removed = listen("removed");
+
+			ModalManager.open("first", { queue: "global" });
+			const queued = ModalManager.open("second", { queue: "global" });
+			queued.close();
+
+			expect(open).toHaveBeenCalledOnce();
+			expect(removed).not.toHaveBeenCalled();
+		});
+
+		it("stops calling a listener once unsubscribed", () => {
+			const listener = vi.fn();
+			const unsubscribe = ModalManager.on("open", listener);
+
+			unsubscribe();
+			ModalManager.open("test-modal");
+
+			expect(listener).not.toHaveBeenCalled();
+		});
+
+		it("keeps notifying other listeners when one throws", () => {
+			const error = vi.spyOn(console, "error").mockImplementation(noop);
+			removers.push(
+				ModalManager.on("open", () => {
+					throw new Error("broken");
+				}),
+			);
+			const listener = listen("open");
+
+			const ref = ModalManager.open("test-modal");
+
+			expect(listener).toHaveBeenCalledOnce();
+			expect(ref.getState()).toBe("open");
+			expect(error).toHaveBeenCalledOnce();
+			error.mockRestore();
+		});
+	});
+
 	describe("Multiple modal tracking", () => {
 		it("getOpenModals returns IDs of open modals", () => {
 			ModalManager.open("modal1");
@@ -354,6 +1130,35 @@ describe("API Functions", () => {
 			expect(openModals).toContain("modal2");
 		});
 
+		it("records increasing depth for stacked modals", () => {
+			ModalManager.open("modal1");
+			ModalManager.open("modal2");
+
+			const depths = mockDispatch.mock.calls
+				.filter((call) => call[0].type === "shadcn-modal-manager/show")
+				.map((call) => call[0].payload.depth);
+
+			expect(depths).toEqual([0, 1]);
+		});
+
+		it("getOpenModals is ordered by depth and getTop returns the top", () => {
+			ModalManager.open("modal1");
+			ModalManager.open("modal2");
+			ModalManager.close("modal2");
+			ModalManager.open("modal3");
+			ModalManager.open("modal2");
+
+			expect(ModalManager.getOpen()).toEqual(["modal1", "modal3", "modal2"]);
+			expect(ModalManager.getTop()).toBe("modal2");
+
+			ModalManager.close("modal2");
+			expect(ModalManager.getTop()).toBe("modal3");
+		});
+
+		it("getTop returns undefined when nothing is open", () => {
+			expect(ModalManager.getTop()).toBeUndefined();
+		});
+
 		it("hasOpenModals returns true when modals are open", () => {
 			expect(ModalManager.hasOpen()).toBe(false);
 